@@ -0,0 +1,131 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const { mockResolveToolApproval, mockGetPendingToolApprovals } = vi.hoisted(
+  () => ({
+    mockResolveToolApproval: vi.fn(),
+    mockGetPendingToolApprovals: vi.fn(),
+  })
+);
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    resolveToolApproval: mockResolveToolApproval,
+    getPendingToolApprovals: mockGetPendingToolApprovals,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Tool Approval API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolveToolApproval.mockImplementation(
+      (sessionId, callId) => callId === 'toolu_1'
+    );
+  });
+
+  describe('GET /chat/session/:sessionId/tool-approvals', () => {
+    it('should list the tool calls waiting for approval', async () => {
+      const approval = {
+        sessionId: 'test-session-id',
+        callId: 'toolu_1',
+        toolName: 'executeCommand',
+        server: 'terminal',
+        arguments: { command: 'rm -rf /' },
+      };
+      mockGetPendingToolApprovals.mockReturnValue([approval]);
+
+      const response = await request(app)
+        .get('/chat/session/test-session-id/tool-approvals')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        sessionId: 'test-session-id',
+        approvals: [approval],
+      });
+      expect(mockGetPendingToolApprovals).toHaveBeenCalledWith(
+        'test-session-id'
+      );
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .get('/chat/session/invalid-session/tool-approvals')
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/tool-approvals/:callId', () => {
+    it('should approve a pending tool call with edited arguments', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/tool-approvals/toolu_1')
+        .send({ approved: true, arguments: { command: 'ls' } })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        sessionId: 'test-session-id',
+        callId: 'toolu_1',
+        approved: true,
+      });
+      expect(mockResolveToolApproval).toHaveBeenCalledWith(
+        'test-session-id',
+        'toolu_1',
+        { approved: true, arguments: { command: 'ls' } }
+      );
+    });
+
+    it('should deny a pending tool call with a reason', async () => {
+      await request(app)
+        .post('/chat/session/test-session-id/tool-approvals/toolu_1')
+        .send({ approved: false, reason: 'Not allowed' })
+        .expect(200);
+
+      expect(mockResolveToolApproval).toHaveBeenCalledWith(
+        'test-session-id',
+        'toolu_1',
+        { approved: false, reason: 'Not allowed' }
+      );
+    });
+
+    it('should return 400 when approved is missing', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/tool-approvals/toolu_1')
+        .send({ reason: 'Not allowed' })
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'approved must be a boolean' });
+      expect(mockResolveToolApproval).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown tool call', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/tool-approvals/toolu_2')
+        .send({ approved: true })
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Tool approval not found' });
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .post('/chat/session/invalid-session/tool-approvals/toolu_1')
+        .send({ approved: true })
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+    });
+  });
+});
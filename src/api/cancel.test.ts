@@ -0,0 +1,82 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMCancelledError, LLMError } from '../llm/types';
+
+const { mockCancel, mockSendMessage } = vi.hoisted(() => ({
+  mockCancel: vi.fn(),
+  mockSendMessage: vi.fn(),
+}));
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    cancel: mockCancel,
+    sendMessage: mockSendMessage,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Cancellation API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST /chat/session/:sessionId/cancel', () => {
+    it('should cancel the running turn', async () => {
+      mockCancel.mockReturnValue(true);
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/cancel')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        sessionId: 'test-session-id',
+        cancelled: true,
+      });
+      expect(mockCancel).toHaveBeenCalledWith('test-session-id');
+    });
+
+    it('should report when no turn was running', async () => {
+      mockCancel.mockReturnValue(false);
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/cancel')
+        .expect(200);
+
+      expect(response.body.cancelled).toBe(false);
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .post('/chat/session/invalid-session/cancel')
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/message', () => {
+    it('should pass an abort signal and return 499 when the turn is cancelled', async () => {
+      mockSendMessage.mockRejectedValue(new LLMCancelledError());
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/message')
+        .send({ message: 'Hello' })
+        .expect(499);
+
+      expect(response.body).toEqual({ error: 'Request cancelled' });
+      expect(mockSendMessage).toHaveBeenCalledWith('test-session-id', 'Hello', {
+        signal: expect.any(AbortSignal),
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError, SessionEventListener } from '../llm/types';
+
+const { listeners, mockUnsubscribe } = vi.hoisted(() => ({
+  listeners: [] as SessionEventListener[],
+  mockUnsubscribe: vi.fn(),
+}));
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    onSessionEvent: vi.fn().mockImplementation(listener => {
+      listeners.push(listener);
+      return mockUnsubscribe;
+    }),
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Session Events API', () => {
+  let server: http.Server;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    listeners.length = 0;
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('GET /chat/session/:sessionId/events', () => {
+    it("should stream the session's events until the client disconnects", async () => {
+      const { port } = server.address() as AddressInfo;
+      const received = await new Promise<string>((resolve, reject) => {
+        const req = http.get(
+          `http://127.0.0.1:${port}/chat/session/test-session-id/events`,
+          res => {
+            expect(res.headers['content-type']).toBe('text/event-stream');
+            res.setEncoding('utf8');
+            res.once('data', chunk => {
+              req.destroy();
+              resolve(chunk);
+            });
+            listeners[0]({
+              type: 'resource_updated',
+              sessionId: 'other-session',
+              server: 'logs',
+              uri: 'file:///logs/other.log',
+            });
+            listeners[0]({
+              type: 'resource_updated',
+              sessionId: 'test-session-id',
+              server: 'logs',
+              uri: 'file:///logs/build.log',
+            });
+          }
+        );
+        req.on('error', reject);
+      });
+
+      expect(received).toBe(
+        `data: ${JSON.stringify({
+          type: 'resource_updated',
+          sessionId: 'test-session-id',
+          server: 'logs',
+          uri: 'file:///logs/build.log',
+        })}\n\n`
+      );
+      await vi.waitFor(() => expect(mockUnsubscribe).toHaveBeenCalled());
+    });
+
+    it('should return 404 for invalid session', async () => {
+      await request(app)
+        .get('/chat/session/invalid-session/events')
+        .expect(404);
+    });
+  });
+});
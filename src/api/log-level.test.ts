@@ -0,0 +1,82 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const { mockSetServerLogLevel } = vi.hoisted(() => ({
+  mockSetServerLogLevel: vi.fn(),
+}));
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    setServerLogLevel: mockSetServerLogLevel,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Server Log Level API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSetServerLogLevel.mockImplementation(async (sessionId, server) => {
+      if (server !== 'builder') {
+        throw new LLMError(`Server not found: ${server}`);
+      }
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/servers/:server/log-level', () => {
+    it("should set the server's log level", async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/servers/builder/log-level')
+        .send({ level: 'debug' })
+        .expect(200);
+
+      expect(response.body).toEqual({ server: 'builder', level: 'debug' });
+      expect(mockSetServerLogLevel).toHaveBeenCalledWith(
+        'test-session-id',
+        'builder',
+        'debug'
+      );
+    });
+
+    it('should return 400 for an unknown level', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/servers/builder/log-level')
+        .send({ level: 'verbose' })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error:
+          'level must be one of debug, info, notice, warning, error, critical, alert, emergency',
+      });
+      expect(mockSetServerLogLevel).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown server', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/servers/missing/log-level')
+        .send({ level: 'info' })
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Server not found: missing' });
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .post('/chat/session/invalid-session/servers/builder/log-level')
+        .send({ level: 'info' })
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+    });
+  });
+});
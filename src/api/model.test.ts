@@ -0,0 +1,81 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+import { ConfigurationError } from '../config/types';
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    switchModel: vi.fn().mockImplementation(async (id, options) => {
+      if (options.type === 'unknown-llm') {
+        throw new ConfigurationError("Unsupported LLM provider type 'unknown-llm'");
+      }
+      return {
+        id,
+        config: { type: options.type || 'claude', model: options.model },
+        tokenMetrics: { totalTokens: 10, maxContextTokens: 200000 },
+        tokenCost: { totalCost: 0, currency: 'USD' },
+      };
+    }),
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Model Switching API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('POST /chat/session/:sessionId/model', () => {
+    it('should switch the session model', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/model')
+        .send({ model: 'claude-3-opus-20240229' })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        sessionId: 'test-session-id',
+        type: 'claude',
+        model: 'claude-3-opus-20240229',
+        tokenMetrics: { totalTokens: 10, maxContextTokens: 200000 },
+        tokenCost: { totalCost: 0, currency: 'USD' },
+      });
+    });
+
+    it('should return 400 when model is missing', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/model')
+        .send({})
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'Model is required' });
+    });
+
+    it('should return 400 for unsupported providers', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/model')
+        .send({ type: 'unknown-llm', model: 'some-model' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Unsupported LLM provider type');
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .post('/chat/session/invalid-session/model')
+        .send({ model: 'claude-3-opus-20240229' })
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const { mockRunPrompt } = vi.hoisted(() => ({
+  mockRunPrompt: vi.fn(),
+}));
+
+const prompts = [
+  {
+    name: 'review-code',
+    server: 'workflows',
+    arguments: [{ name: 'path', required: true }],
+  },
+];
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    runPrompt: mockRunPrompt,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+        prompts,
+      };
+    }),
+  })),
+}));
+
+describe('Prompts API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /chat/session/:sessionId/prompts', () => {
+    it('should list the session prompts', async () => {
+      const response = await request(app)
+        .get('/chat/session/test-session-id/prompts')
+        .expect(200);
+
+      expect(response.body).toEqual({ prompts });
+    });
+
+    it('should return 404 for invalid session', async () => {
+      await request(app)
+        .get('/chat/session/invalid-session/prompts')
+        .expect(404);
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/prompts/:server/:promptName', () => {
+    it('should run the prompt with its arguments', async () => {
+      mockRunPrompt.mockResolvedValue({
+        role: 'assistant',
+        content: 'No bugs found',
+      });
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/prompts/workflows/review-code')
+        .send({ arguments: { path: 'src/app.ts' } })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        role: 'assistant',
+        content: 'No bugs found',
+      });
+      expect(mockRunPrompt).toHaveBeenCalledWith(
+        'test-session-id',
+        'workflows',
+        'review-code',
+        { path: 'src/app.ts' },
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should return 400 for non-string arguments', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/prompts/workflows/review-code')
+        .send({ arguments: { depth: 2 } })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'arguments must map argument names to strings',
+      });
+      expect(mockRunPrompt).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when required arguments are missing', async () => {
+      mockRunPrompt.mockRejectedValue(
+        new LLMError('Missing required arguments for prompt review-code: path')
+      );
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/prompts/workflows/review-code')
+        .send({})
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'Missing required arguments for prompt review-code: path',
+      });
+    });
+
+    it('should return 404 for an unknown server', async () => {
+      mockRunPrompt.mockRejectedValue(
+        new LLMError('Server not found: missing')
+      );
+
+      await request(app)
+        .post('/chat/session/test-session-id/prompts/missing/review-code')
+        .send({})
+        .expect(404);
+    });
+  });
+});
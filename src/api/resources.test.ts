@@ -0,0 +1,195 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const {
+  mockReadResource,
+  mockSendMessage,
+  mockSubscribeResource,
+  mockUnsubscribeResource,
+} = vi.hoisted(() => ({
+  mockReadResource: vi.fn(),
+  mockSendMessage: vi.fn(),
+  mockSubscribeResource: vi.fn(),
+  mockUnsubscribeResource: vi.fn(),
+}));
+
+const resources = [
+  {
+    name: 'setup.md',
+    uri: 'file:///docs/setup.md',
+    mimeType: 'text/markdown',
+    server: 'docs',
+  },
+];
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    readResource: mockReadResource,
+    sendMessage: mockSendMessage,
+    subscribeResource: mockSubscribeResource,
+    unsubscribeResource: mockUnsubscribeResource,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+        resources,
+      };
+    }),
+  })),
+}));
+
+describe('Resources API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /chat/session/:sessionId/resources', () => {
+    it('should list the session resources', async () => {
+      const response = await request(app)
+        .get('/chat/session/test-session-id/resources')
+        .expect(200);
+
+      expect(response.body).toEqual({ resources });
+    });
+
+    it('should return 404 for invalid session', async () => {
+      await request(app)
+        .get('/chat/session/invalid-session/resources')
+        .expect(404);
+    });
+  });
+
+  describe('GET /chat/session/:sessionId/resources/read', () => {
+    it('should read a resource by URI', async () => {
+      mockReadResource.mockResolvedValue([
+        { uri: 'file:///docs/setup.md', text: '# Setup guide' },
+      ]);
+
+      const response = await request(app)
+        .get('/chat/session/test-session-id/resources/read')
+        .query({ uri: 'file:///docs/setup.md' })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        uri: 'file:///docs/setup.md',
+        contents: [{ uri: 'file:///docs/setup.md', text: '# Setup guide' }],
+      });
+      expect(mockReadResource).toHaveBeenCalledWith(
+        'test-session-id',
+        'file:///docs/setup.md'
+      );
+    });
+
+    it('should return 400 when uri is missing', async () => {
+      const response = await request(app)
+        .get('/chat/session/test-session-id/resources/read')
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'uri is required' });
+    });
+
+    it('should return 404 when no server provides the resource', async () => {
+      mockReadResource.mockRejectedValue(
+        new LLMError('No server found for resource file:///missing')
+      );
+
+      await request(app)
+        .get('/chat/session/test-session-id/resources/read')
+        .query({ uri: 'file:///missing' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/resources/subscribe', () => {
+    it('should subscribe to a resource', async () => {
+      const subscription = {
+        uri: 'file:///logs/build.log',
+        server: 'docs',
+        pinned: true,
+      };
+      mockSubscribeResource.mockResolvedValue(subscription);
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/resources/subscribe')
+        .send({ uri: 'file:///logs/build.log', pin: true })
+        .expect(200);
+
+      expect(response.body).toEqual(subscription);
+      expect(mockSubscribeResource).toHaveBeenCalledWith(
+        'test-session-id',
+        'file:///logs/build.log',
+        { pin: true }
+      );
+    });
+
+    it('should return 400 when pin is not a boolean', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/resources/subscribe')
+        .send({ uri: 'file:///logs/build.log', pin: 'yes' })
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'pin must be a boolean' });
+    });
+
+    it('should return 404 when no server provides the resource', async () => {
+      mockSubscribeResource.mockRejectedValue(
+        new LLMError('No server found for resource file:///missing')
+      );
+
+      await request(app)
+        .post('/chat/session/test-session-id/resources/subscribe')
+        .send({ uri: 'file:///missing' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/resources/unsubscribe', () => {
+    it('should unsubscribe from a resource', async () => {
+      mockUnsubscribeResource.mockResolvedValue(true);
+
+      const response = await request(app)
+        .post('/chat/session/test-session-id/resources/unsubscribe')
+        .send({ uri: 'file:///logs/build.log' })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        uri: 'file:///logs/build.log',
+        unsubscribed: true,
+      });
+    });
+  });
+
+  describe('POST /chat/session/:sessionId/message', () => {
+    it('should attach resources to the message', async () => {
+      mockSendMessage.mockResolvedValue({ role: 'assistant', content: 'Hi' });
+
+      await request(app)
+        .post('/chat/session/test-session-id/message')
+        .send({ message: 'Summarize', resources: ['file:///docs/setup.md'] })
+        .expect(200);
+
+      expect(mockSendMessage).toHaveBeenCalledWith(
+        'test-session-id',
+        'Summarize',
+        expect.objectContaining({ resources: ['file:///docs/setup.md'] })
+      );
+    });
+
+    it('should return 400 for malformed resources', async () => {
+      const response = await request(app)
+        .post('/chat/session/test-session-id/message')
+        .send({ message: 'Summarize', resources: 'file:///docs/setup.md' })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'resources must be an array of URIs',
+      });
+    });
+  });
+});
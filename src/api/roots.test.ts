@@ -0,0 +1,82 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const { mockSetRoots } = vi.hoisted(() => ({
+  mockSetRoots: vi.fn(),
+}));
+
+const roots = [{ uri: 'file:///workspace/app', name: 'app' }];
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    setRoots: mockSetRoots,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+        roots,
+      };
+    }),
+  })),
+}));
+
+describe('Roots API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /chat/session/:sessionId/roots', () => {
+    it('should list the session roots', async () => {
+      const response = await request(app)
+        .get('/chat/session/test-session-id/roots')
+        .expect(200);
+
+      expect(response.body).toEqual({ roots });
+    });
+  });
+
+  describe('PUT /chat/session/:sessionId/roots', () => {
+    it('should replace the session roots', async () => {
+      mockSetRoots.mockResolvedValue([
+        { uri: 'file:///workspace/lib', name: 'lib' },
+      ]);
+
+      const response = await request(app)
+        .put('/chat/session/test-session-id/roots')
+        .send({ roots: ['/workspace/lib'] })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        roots: [{ uri: 'file:///workspace/lib', name: 'lib' }],
+      });
+      expect(mockSetRoots).toHaveBeenCalledWith('test-session-id', [
+        '/workspace/lib',
+      ]);
+    });
+
+    it('should return 400 when roots is not a list of directories', async () => {
+      const response = await request(app)
+        .put('/chat/session/test-session-id/roots')
+        .send({ roots: '/workspace/lib' })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'roots must be an array of directories',
+      });
+      expect(mockSetRoots).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for invalid session', async () => {
+      await request(app)
+        .put('/chat/session/invalid-session/roots')
+        .send({ roots: [] })
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,725 @@
+import express, { Response, Router } from 'express';
+import { SessionManager } from '../llm/session';
+import {
+  LLMCancelledError,
+  LLMError,
+  ModelSwitchOptions,
+  ServerLogLevel,
+  ToolApprovalDecision,
+} from '../llm/types';
+import { LLMConfig, ConfigurationError } from '../config/types';
+
+interface CreateSessionRequest {
+  config: LLMConfig;
+}
+
+interface MessageRequest {
+  message: string;
+  resources?: string[]; // URIs of resources to attach to the message
+}
+
+interface ToolApprovalBody {
+  approved?: unknown;
+  reason?: unknown;
+  arguments?: unknown;
+}
+
+interface ResourceSubscriptionBody {
+  uri?: unknown;
+  pin?: unknown;
+}
+
+interface LogLevelBody {
+  level?: unknown;
+}
+
+const LOG_LEVELS: ServerLogLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+interface RootsBody {
+  roots?: unknown;
+}
+
+interface RunPromptBody {
+  arguments?: unknown;
+}
+
+type SessionParams = { sessionId: string };
+type ToolApprovalParams = SessionParams & { callId: string };
+type PromptParams = SessionParams & { server: string; promptName: string };
+type ServerParams = SessionParams & { server: string };
+type EmptyResponse = Record<string, never>;
+
+/**
+ * Verify a session exists, responding with 404 if it doesn't
+ * @returns true when the session exists and the route should continue
+ */
+async function ensureSession(
+  sessionManager: SessionManager,
+  sessionId: string,
+  res: Response
+): Promise<boolean> {
+  try {
+    await sessionManager.getSession(sessionId);
+    return true;
+  } catch (error) {
+    if (
+      error instanceof LLMError &&
+      error.message.startsWith('Session not found')
+    ) {
+      res.status(404).json({ error: 'Session not found' });
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check an optional list of resource URIs to attach, responding with 400
+ * if it is malformed
+ * @returns true when the list is valid and the route should continue
+ */
+function validateResourceUris(resources: unknown, res: Response): boolean {
+  if (
+    resources !== undefined &&
+    !(
+      Array.isArray(resources) &&
+      resources.every(uri => typeof uri === 'string')
+    )
+  ) {
+    res.status(400).json({ error: 'resources must be an array of URIs' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Abort signal that fires if the client disconnects before the response
+ * is complete, so abandoned turns stop running
+ */
+function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Create an Express router exposing chat sessions over HTTP
+ */
+export function createChatRouter(
+  sessionManager: SessionManager = new SessionManager()
+) {
+  const router = Router();
+  router.use(express.json());
+
+  // Create a new chat session
+  router.post<EmptyResponse, any, CreateSessionRequest>(
+    '/session',
+    async (req, res): Promise<void> => {
+      try {
+        const { config } = req.body;
+        if (!config) {
+          res.status(400).json({ error: 'Invalid configuration' });
+          return;
+        }
+
+        const session = await sessionManager.initializeSession(config);
+        res.status(201).json({ sessionId: session.id });
+      } catch (error) {
+        console.error('Error creating session:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Close a session, releasing the servers it uses
+  router.delete<SessionParams>(
+    '/session/:sessionId',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        await sessionManager.closeSession(sessionId);
+        res.status(204).end();
+      } catch (error) {
+        console.error('Error closing session:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Send a message in an existing chat session
+  router.post<SessionParams, any, MessageRequest>(
+    '/session/:sessionId/message',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { message, resources } = req.body;
+
+        if (!message) {
+          res.status(400).json({ error: 'Message is required' });
+          return;
+        }
+
+        if (!validateResourceUris(resources, res)) {
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const response = await sessionManager.sendMessage(sessionId, message, {
+          signal: abortOnDisconnect(res),
+          resources,
+        });
+        res.status(200).json(response);
+      } catch (error) {
+        if (error instanceof LLMCancelledError) {
+          // 499: the turn was cancelled before it completed
+          res.status(499).json({ error: error.message });
+          return;
+        }
+        console.error('Error sending message:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Send a message in an existing chat session with streaming response
+  router.post<SessionParams, any, MessageRequest>(
+    '/session/:sessionId/stream',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { message, resources } = req.body;
+
+        if (!message) {
+          res.status(400).json({ error: 'Message is required' });
+          return;
+        }
+
+        if (!validateResourceUris(resources, res)) {
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        // Set up SSE headers
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+
+        // Stream the response
+        for await (const chunk of sessionManager.sendMessageStream(
+          sessionId,
+          message,
+          { signal: abortOnDisconnect(res), resources }
+        )) {
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+
+        res.end();
+      } catch (error) {
+        console.error('Error streaming message:', error);
+        if (!res.headersSent) {
+          res.status(500).json({ error: 'Internal server error' });
+          return;
+        }
+        res.write(
+          `data: ${JSON.stringify({
+            type: 'error',
+            error: 'Internal server error',
+          })}\n\n`
+        );
+        res.end();
+      }
+    }
+  );
+
+  // Switch the model or provider backing an existing chat session
+  router.post<SessionParams, any, ModelSwitchOptions>(
+    '/session/:sessionId/model',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { type, model, api_key, base_url } = req.body;
+
+        if (!model) {
+          res.status(400).json({ error: 'Model is required' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const session = await sessionManager.switchModel(sessionId, {
+          type,
+          model,
+          api_key,
+          base_url,
+        });
+        res.status(200).json({
+          sessionId: session.id,
+          type: session.config.type,
+          model: session.config.model,
+          tokenMetrics: session.tokenMetrics,
+          tokenCost: session.tokenCost,
+        });
+      } catch (error) {
+        if (error instanceof ConfigurationError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        console.error('Error switching model:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // List the resources exposed by a session's servers
+  router.get<SessionParams>(
+    '/session/:sessionId/resources',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const session = sessionManager.getSession(sessionId);
+        res.status(200).json({ resources: session.resources });
+      } catch (error) {
+        console.error('Error listing resources:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Read a resource by URI
+  router.get<SessionParams, any, any, { uri?: string }>(
+    '/session/:sessionId/resources/read',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { uri } = req.query;
+
+        if (typeof uri !== 'string' || !uri) {
+          res.status(400).json({ error: 'uri is required' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const contents = await sessionManager.readResource(sessionId, uri);
+        res.status(200).json({ uri, contents });
+      } catch (error) {
+        if (
+          error instanceof LLMError &&
+          error.message.startsWith('No server found for resource')
+        ) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        console.error('Error reading resource:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Subscribe to updates of a resource
+  router.post<SessionParams, any, ResourceSubscriptionBody>(
+    '/session/:sessionId/resources/subscribe',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { uri, pin } = req.body;
+
+        if (typeof uri !== 'string' || !uri) {
+          res.status(400).json({ error: 'uri is required' });
+          return;
+        }
+        if (pin !== undefined && typeof pin !== 'boolean') {
+          res.status(400).json({ error: 'pin must be a boolean' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const subscription = await sessionManager.subscribeResource(
+          sessionId,
+          uri,
+          { pin }
+        );
+        res.status(200).json(subscription);
+      } catch (error) {
+        if (
+          error instanceof LLMError &&
+          error.message.startsWith('No server found for resource')
+        ) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        console.error('Error subscribing to resource:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Stop receiving updates for a resource
+  router.post<SessionParams, any, ResourceSubscriptionBody>(
+    '/session/:sessionId/resources/unsubscribe',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { uri } = req.body;
+
+        if (typeof uri !== 'string' || !uri) {
+          res.status(400).json({ error: 'uri is required' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const unsubscribed = await sessionManager.unsubscribeResource(
+          sessionId,
+          uri
+        );
+        res.status(200).json({ uri, unsubscribed });
+      } catch (error) {
+        console.error('Error unsubscribing from resource:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Stream session events, such as resource updates, as SSE
+  router.get<SessionParams>(
+    '/session/:sessionId/events',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.flushHeaders();
+
+        const unsubscribe = sessionManager.onSessionEvent(event => {
+          if (event.sessionId === sessionId) {
+            res.write(`data: ${JSON.stringify(event)}\n\n`);
+          }
+        });
+        res.on('close', unsubscribe);
+      } catch (error) {
+        console.error('Error streaming events:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // List the state of a session's servers and their last ping latency
+  router.get<SessionParams>(
+    '/session/:sessionId/servers',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const servers = sessionManager.getServerHealth(sessionId);
+        res.status(200).json({ sessionId, servers });
+      } catch (error) {
+        console.error('Error listing servers:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Set the minimum level of log messages a server sends
+  router.post<ServerParams, any, LogLevelBody>(
+    '/session/:sessionId/servers/:server/log-level',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId, server } = req.params;
+        const { level } = req.body;
+
+        if (!LOG_LEVELS.includes(level as ServerLogLevel)) {
+          res.status(400).json({
+            error: `level must be one of ${LOG_LEVELS.join(', ')}`,
+          });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        await sessionManager.setServerLogLevel(
+          sessionId,
+          server,
+          level as ServerLogLevel
+        );
+        res.status(200).json({ server, level });
+      } catch (error) {
+        if (
+          error instanceof LLMError &&
+          error.message.startsWith('Server not found')
+        ) {
+          res.status(404).json({ error: error.message });
+          return;
+        }
+        console.error('Error setting log level:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // List the workspace roots a session offers to its servers
+  router.get<SessionParams>(
+    '/session/:sessionId/roots',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const session = sessionManager.getSession(sessionId);
+        res.status(200).json({ roots: session.roots });
+      } catch (error) {
+        console.error('Error listing roots:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Replace the workspace roots of a session
+  router.put<SessionParams, any, RootsBody>(
+    '/session/:sessionId/roots',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+        const { roots } = req.body;
+
+        if (
+          !Array.isArray(roots) ||
+          !roots.every(root => typeof root === 'string' && root)
+        ) {
+          res
+            .status(400)
+            .json({ error: 'roots must be an array of directories' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const updated = await sessionManager.setRoots(sessionId, roots);
+        res.status(200).json({ roots: updated });
+      } catch (error) {
+        console.error('Error updating roots:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // List the prompts exposed by a session's servers
+  router.get<SessionParams>(
+    '/session/:sessionId/prompts',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const session = sessionManager.getSession(sessionId);
+        res.status(200).json({ prompts: session.prompts });
+      } catch (error) {
+        console.error('Error listing prompts:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Run a server prompt in the session
+  router.post<PromptParams, any, RunPromptBody>(
+    '/session/:sessionId/prompts/:server/:promptName',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId, server, promptName } = req.params;
+        const args = req.body.arguments;
+
+        if (
+          args !== undefined &&
+          !(
+            typeof args === 'object' &&
+            args !== null &&
+            !Array.isArray(args) &&
+            Object.values(args).every(value => typeof value === 'string')
+          )
+        ) {
+          res
+            .status(400)
+            .json({ error: 'arguments must map argument names to strings' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const response = await sessionManager.runPrompt(
+          sessionId,
+          server,
+          promptName,
+          args as Record<string, string> | undefined,
+          { signal: abortOnDisconnect(res) }
+        );
+        res.status(200).json(response);
+      } catch (error) {
+        if (error instanceof LLMCancelledError) {
+          res.status(499).json({ error: error.message });
+          return;
+        }
+        if (error instanceof LLMError) {
+          if (error.message.startsWith('Server not found')) {
+            res.status(404).json({ error: error.message });
+            return;
+          }
+          if (
+            error.message.startsWith('Missing required arguments') ||
+            error.message.endsWith('must end with a user message')
+          ) {
+            res.status(400).json({ error: error.message });
+            return;
+          }
+        }
+        console.error('Error running prompt:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Cancel the turn in progress for a session
+  router.post<SessionParams>(
+    '/session/:sessionId/cancel',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const cancelled = sessionManager.cancel(sessionId);
+        res.status(200).json({ sessionId, cancelled });
+      } catch (error) {
+        console.error('Error cancelling turn:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // List the tool calls in a session that are waiting for approval
+  router.get<SessionParams>(
+    '/session/:sessionId/tool-approvals',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId } = req.params;
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const approvals = sessionManager.getPendingToolApprovals(sessionId);
+        res.status(200).json({ sessionId, approvals });
+      } catch (error) {
+        console.error('Error listing tool approvals:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Approve, deny or edit a tool call announced by an approval_required event
+  router.post<ToolApprovalParams, any, ToolApprovalBody>(
+    '/session/:sessionId/tool-approvals/:callId',
+    async (req, res): Promise<void> => {
+      try {
+        const { sessionId, callId } = req.params;
+        const { approved, reason, arguments: args } = req.body;
+
+        if (typeof approved !== 'boolean') {
+          res.status(400).json({ error: 'approved must be a boolean' });
+          return;
+        }
+        if (reason !== undefined && typeof reason !== 'string') {
+          res.status(400).json({ error: 'reason must be a string' });
+          return;
+        }
+        if (
+          args !== undefined &&
+          (!args || typeof args !== 'object' || Array.isArray(args))
+        ) {
+          res.status(400).json({ error: 'arguments must be an object' });
+          return;
+        }
+
+        if (!(await ensureSession(sessionManager, sessionId, res))) {
+          return;
+        }
+
+        const decision: ToolApprovalDecision = approved
+          ? { approved, arguments: args as Record<string, unknown> | undefined }
+          : { approved, reason };
+        if (!sessionManager.resolveToolApproval(sessionId, callId, decision)) {
+          res.status(404).json({ error: 'Tool approval not found' });
+          return;
+        }
+        res.status(200).json({ sessionId, callId, approved });
+      } catch (error) {
+        console.error('Error resolving tool approval:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  return router;
+}
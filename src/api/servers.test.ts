@@ -0,0 +1,82 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const { mockGetServerHealth } = vi.hoisted(() => ({
+  mockGetServerHealth: vi.fn(),
+}));
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    getServerHealth: mockGetServerHealth,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Server Health API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /chat/session/:sessionId/servers', () => {
+    it("should list the session's servers with their state", async () => {
+      mockGetServerHealth.mockReturnValue([
+        {
+          server: 'filesystem',
+          state: 'Active',
+          latencyMs: 3,
+          lastPingAt: new Date('2025-01-01T00:00:00Z'),
+          failedPings: 0,
+        },
+        {
+          server: 'search',
+          state: 'Error',
+          failedPings: 3,
+          error: 'Server search health check failed: 3 pings in a row failed',
+        },
+      ]);
+
+      const response = await request(app)
+        .get('/chat/session/test-session-id/servers')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        sessionId: 'test-session-id',
+        servers: [
+          {
+            server: 'filesystem',
+            state: 'Active',
+            latencyMs: 3,
+            lastPingAt: '2025-01-01T00:00:00.000Z',
+            failedPings: 0,
+          },
+          {
+            server: 'search',
+            state: 'Error',
+            failedPings: 3,
+            error: 'Server search health check failed: 3 pings in a row failed',
+          },
+        ],
+      });
+      expect(mockGetServerHealth).toHaveBeenCalledWith('test-session-id');
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .get('/chat/session/invalid-session/servers')
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { app } from './app';
+import { LLMError } from '../llm/types';
+
+const { mockCloseSession } = vi.hoisted(() => ({
+  mockCloseSession: vi.fn(),
+}));
+
+// Mock the SessionManager
+vi.mock('../llm/session', () => ({
+  SessionManager: vi.fn().mockImplementation(() => ({
+    closeSession: mockCloseSession,
+    getSession: vi.fn().mockImplementation(id => {
+      if (id !== 'test-session-id') {
+        throw new LLMError(`Session not found: ${id}`);
+      }
+      return {
+        id: 'test-session-id',
+        messages: [],
+      };
+    }),
+  })),
+}));
+
+describe('Session API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('DELETE /chat/session/:sessionId', () => {
+    it('should close the session', async () => {
+      mockCloseSession.mockResolvedValue(undefined);
+
+      await request(app).delete('/chat/session/test-session-id').expect(204);
+
+      expect(mockCloseSession).toHaveBeenCalledWith('test-session-id');
+    });
+
+    it('should return 404 for invalid session', async () => {
+      const response = await request(app)
+        .delete('/chat/session/invalid-session')
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Session not found' });
+      expect(mockCloseSession).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when closing fails', async () => {
+      mockCloseSession.mockRejectedValue(new Error('Failed to stop server'));
+
+      const response = await request(app)
+        .delete('/chat/session/test-session-id')
+        .expect(500);
+
+      expect(response.body).toEqual({ error: 'Internal server error' });
+    });
+  });
+});
@@ -82,6 +82,105 @@ describe('Configuration Loader', () => {
     await expect(loadConfig('config.json')).rejects.toThrow(ConfigurationError);
   });
 
+  it('should accept an LLM fallback chain', async () => {
+    const configWithFallbacks = {
+      ...validConfig,
+      llm: {
+        ...validConfig.llm,
+        fallbacks: [
+          { type: 'claude', model: 'claude-3-5-haiku-20241022' },
+          { type: 'openai', model: 'gpt-4o', api_key: 'openai-key' },
+        ],
+      },
+    };
+
+    vi.mocked(mockFs.readFile).mockResolvedValue(
+      JSON.stringify(configWithFallbacks)
+    );
+
+    const config = await loadConfig('config.json');
+    expect(config.llm.fallbacks).toHaveLength(2);
+  });
+
+  it('should throw ConfigurationError for invalid LLM fallbacks', async () => {
+    const invalidConfig = {
+      ...validConfig,
+      llm: { ...validConfig.llm, fallbacks: [{ type: 'claude' }] },
+    };
+
+    vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify(invalidConfig));
+
+    await expect(loadConfig('config.json')).rejects.toThrow(
+      "LLM fallback 0 requires a non-empty string for 'model'"
+    );
+  });
+
+  it('should throw ConfigurationError for a non-boolean namespace_tools', async () => {
+    const invalidConfig = {
+      ...validConfig,
+      llm: { ...validConfig.llm, namespace_tools: 'yes' },
+    };
+
+    vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify(invalidConfig));
+
+    await expect(loadConfig('config.json')).rejects.toThrow(
+      'LLM configuration namespace_tools must be a boolean'
+    );
+  });
+
+  it('should throw ConfigurationError for invalid roots', async () => {
+    const invalidConfig = {
+      ...validConfig,
+      llm: { ...validConfig.llm, roots: '/workspace' },
+    };
+
+    vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify(invalidConfig));
+
+    await expect(loadConfig('config.json')).rejects.toThrow(
+      'LLM configuration roots must be an array of directories'
+    );
+  });
+
+  it('should throw ConfigurationError for an invalid requires_approval', async () => {
+    const invalidConfig = {
+      ...validConfig,
+      servers: {
+        terminal: {
+          command: 'terminal',
+          args: [],
+          env: {},
+          requires_approval: 'executeCommand',
+        },
+      },
+    };
+
+    vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify(invalidConfig));
+
+    await expect(loadConfig('config.json')).rejects.toThrow(
+      "Server 'terminal' requires_approval must be a boolean or an array of tool names"
+    );
+  });
+
+  it('should throw ConfigurationError for invalid tool timeouts', async () => {
+    const invalidConfig = {
+      ...validConfig,
+      servers: {
+        slow: {
+          command: 'slow',
+          args: [],
+          env: {},
+          tool_timeouts: { crawl: 0 },
+        },
+      },
+    };
+
+    vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify(invalidConfig));
+
+    await expect(loadConfig('config.json')).rejects.toThrow(
+      "Server 'slow' tool_timeouts must map tool names to positive numbers"
+    );
+  });
+
   it('should throw ConfigurationError for invalid server config', async () => {
     const invalidConfig = {
       ...validConfig,
@@ -203,5 +302,261 @@ describe('Configuration Loader', () => {
       const config = await loadConfig('config.json');
       expect(config).toEqual(validConfig);
     });
+
+    it('should accept remote servers without a command', async () => {
+      const remoteConfig = {
+        ...validConfig,
+        servers: {
+          search: {
+            transport: 'http',
+            url: 'https://mcp.example.com/mcp',
+            headers: { Authorization: 'Bearer token' },
+          },
+          legacy: { transport: 'sse', url: 'http://localhost:3001/sse' },
+        },
+      };
+
+      vi.mocked(mockFs.readFile).mockResolvedValue(
+        JSON.stringify(remoteConfig)
+      );
+      const config = await loadConfig('config.json');
+      expect(config).toEqual(remoteConfig);
+    });
+
+    it('should validate server transport, url, headers and isolated', async () => {
+      const cases: [Record<string, unknown>, string][] = [
+        [
+          { transport: 'websocket', url: 'ws://localhost' },
+          "Server 'search' transport must be one of stdio, http, sse",
+        ],
+        [
+          { transport: 'http' },
+          "Server 'search' requires an http or https url",
+        ],
+        [
+          { transport: 'sse', url: 'file:///tmp/socket' },
+          "Server 'search' requires an http or https url",
+        ],
+        [
+          { transport: 'http', url: 'http://localhost', headers: { a: 1 } },
+          "Server 'search' headers must map header names to strings",
+        ],
+        [
+          { transport: 'http', url: 'http://localhost', isolated: 'yes' },
+          "Server 'search' isolated must be a boolean",
+        ],
+      ];
+
+      for (const [search, message] of cases) {
+        vi.mocked(mockFs.readFile).mockResolvedValue(
+          JSON.stringify({ ...validConfig, servers: { search } })
+        );
+        await expect(loadConfig('config.json')).rejects.toThrow(message);
+      }
+    });
+
+    it('should validate server readiness and health checks', async () => {
+      const cases: [Record<string, unknown>, string][] = [
+        [
+          { ready: { type: 'banner' } },
+          "Server 'filesystem' ready type must be one of log, initialize, delay, tcp, http",
+        ],
+        [
+          { ready: { type: 'log', pattern: '(' } },
+          "Server 'filesystem' ready pattern must be a regular expression",
+        ],
+        [
+          { ready: { type: 'log', pattern: 'ready', stream: 'stdin' } },
+          "Server 'filesystem' ready stream must be stderr or stdout",
+        ],
+        [
+          { ready: { type: 'delay' } },
+          "Server 'filesystem' ready ms must be a positive number",
+        ],
+        [
+          { ready: { type: 'tcp', port: 70000 } },
+          "Server 'filesystem' ready port must be a port number",
+        ],
+        [
+          { ready: { type: 'http', url: 'localhost:8080' } },
+          "Server 'filesystem' ready requires an http or https url",
+        ],
+        [
+          { launch_timeout_ms: -1 },
+          "Server 'filesystem' launch_timeout_ms must be a positive number",
+        ],
+        [
+          { health_check: { retries: 0 } },
+          "Server 'filesystem' health_check.retries must be a positive integer",
+        ],
+        [
+          { health_check: { timeout_ms: '10s' } },
+          "Server 'filesystem' health_check.timeout_ms must be a positive number",
+        ],
+      ];
+
+      for (const [settings, message] of cases) {
+        vi.mocked(mockFs.readFile).mockResolvedValue(
+          JSON.stringify({
+            ...validConfig,
+            servers: {
+              filesystem: { ...validConfig.servers.filesystem, ...settings },
+            },
+          })
+        );
+        await expect(loadConfig('config.json')).rejects.toThrow(message);
+      }
+
+      const readinessConfig = {
+        ...validConfig,
+        servers: {
+          filesystem: {
+            ...validConfig.servers.filesystem,
+            ready: { type: 'tcp', port: 8080 },
+            launch_timeout_ms: 30000,
+            health_check: { retries: 5, interval_ms: 500 },
+          },
+        },
+      };
+      vi.mocked(mockFs.readFile).mockResolvedValue(
+        JSON.stringify(readinessConfig)
+      );
+      await expect(loadConfig('config.json')).resolves.toEqual(readinessConfig);
+    });
+
+    it('should validate server ping policies', async () => {
+      const cases: [unknown, string][] = [
+        [true, "Server 'filesystem' ping must be an object"],
+        [
+          { interval_ms: 0 },
+          "Server 'filesystem' ping.interval_ms must be a positive number",
+        ],
+        [
+          { timeout_ms: '5s' },
+          "Server 'filesystem' ping.timeout_ms must be a positive number",
+        ],
+        [
+          { failure_threshold: 0 },
+          "Server 'filesystem' ping.failure_threshold must be a positive integer",
+        ],
+      ];
+
+      for (const [ping, message] of cases) {
+        vi.mocked(mockFs.readFile).mockResolvedValue(
+          JSON.stringify({
+            ...validConfig,
+            servers: {
+              filesystem: { ...validConfig.servers.filesystem, ping },
+            },
+          })
+        );
+        await expect(loadConfig('config.json')).rejects.toThrow(message);
+      }
+    });
+
+    it('should validate lazy launching and declared tools', async () => {
+      const cases: [Record<string, unknown>, string][] = [
+        [
+          { launch: 'later' },
+          "Server 'filesystem' launch must be one of eager, lazy",
+        ],
+        [{ optional: 1 }, "Server 'filesystem' optional must be a boolean"],
+        [
+          { tools: { name: 'read_file' } },
+          "Server 'filesystem' tools must be an array",
+        ],
+        [
+          { tools: [{ description: 'Read a file' }] },
+          "Server 'filesystem' tools must each have a name",
+        ],
+        [
+          { tools: [{ name: 'read_file', description: 3 }] },
+          "Server 'filesystem' tool 'read_file' description must be a string",
+        ],
+        [
+          { tools: [{ name: 'read_file', input_schema: { type: 'string' } }] },
+          "Server 'filesystem' tool 'read_file' input_schema must be a JSON Schema of type object",
+        ],
+      ];
+
+      for (const [settings, message] of cases) {
+        vi.mocked(mockFs.readFile).mockResolvedValue(
+          JSON.stringify({
+            ...validConfig,
+            servers: {
+              filesystem: { ...validConfig.servers.filesystem, ...settings },
+            },
+          })
+        );
+        await expect(loadConfig('config.json')).rejects.toThrow(message);
+      }
+
+      const lazyConfig = {
+        ...validConfig,
+        servers: {
+          filesystem: {
+            ...validConfig.servers.filesystem,
+            launch: 'lazy',
+            optional: true,
+            tools: [
+              {
+                name: 'read_file',
+                description: 'Read a file',
+                input_schema: {
+                  type: 'object',
+                  properties: { path: { type: 'string' } },
+                },
+              },
+            ],
+          },
+        },
+      };
+      vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify(lazyConfig));
+      await expect(loadConfig('config.json')).resolves.toEqual(lazyConfig);
+    });
+
+    it('should validate server restart policies', async () => {
+      const cases: [unknown, string][] = [
+        [3, "Server 'filesystem' restart must be an object"],
+        [
+          { max_attempts: 1.5 },
+          "Server 'filesystem' restart.max_attempts must be a non-negative integer",
+        ],
+        [
+          { initial_delay_ms: 0 },
+          "Server 'filesystem' restart.initial_delay_ms must be a positive number",
+        ],
+        [
+          { max_delay_ms: '30s' },
+          "Server 'filesystem' restart.max_delay_ms must be a positive number",
+        ],
+      ];
+
+      for (const [restart, message] of cases) {
+        vi.mocked(mockFs.readFile).mockResolvedValue(
+          JSON.stringify({
+            ...validConfig,
+            servers: {
+              filesystem: { ...validConfig.servers.filesystem, restart },
+            },
+          })
+        );
+        await expect(loadConfig('config.json')).rejects.toThrow(message);
+      }
+
+      const restartConfig = {
+        ...validConfig,
+        servers: {
+          filesystem: {
+            ...validConfig.servers.filesystem,
+            restart: { max_attempts: 0, initial_delay_ms: 500 },
+          },
+        },
+      };
+      vi.mocked(mockFs.readFile).mockResolvedValue(
+        JSON.stringify(restartConfig)
+      );
+      await expect(loadConfig('config.json')).resolves.toEqual(restartConfig);
+    });
   });
 });
@@ -4,8 +4,26 @@ import {
   ConfigurationError,
   LLMConfig,
   ServerConfig,
+  ServerHealthCheck,
+  ServerLaunchMode,
+  ServerPingPolicy,
+  ServerReadiness,
+  ServerRestartPolicy,
+  ServerToolDeclaration,
+  ServerTransport,
+  isRemoteServer,
 } from './types';
 
+const SERVER_TRANSPORTS: ServerTransport[] = ['stdio', 'http', 'sse'];
+const LAUNCH_MODES: ServerLaunchMode[] = ['eager', 'lazy'];
+const READINESS_TYPES: ServerReadiness['type'][] = [
+  'log',
+  'initialize',
+  'delay',
+  'tcp',
+  'http',
+];
+
 export async function loadConfig(configPath: string): Promise<MCPConfig> {
   try {
     const configContent = await fs.readFile(configPath, 'utf-8');
@@ -63,6 +81,50 @@ function validateLLMConfig(llm: any): asserts llm is LLMConfig {
       );
     }
   }
+
+  if (llm.fallbacks !== undefined) {
+    validateFallbacks(llm.fallbacks);
+  }
+
+  if (
+    llm.namespace_tools !== undefined &&
+    typeof llm.namespace_tools !== 'boolean'
+  ) {
+    throw new ConfigurationError(
+      'LLM configuration namespace_tools must be a boolean'
+    );
+  }
+
+  if (
+    llm.roots !== undefined &&
+    !(
+      Array.isArray(llm.roots) &&
+      llm.roots.every((root: unknown) => typeof root === 'string' && root)
+    )
+  ) {
+    throw new ConfigurationError(
+      'LLM configuration roots must be an array of directories'
+    );
+  }
+}
+
+function validateFallbacks(fallbacks: unknown) {
+  if (!Array.isArray(fallbacks)) {
+    throw new ConfigurationError('LLM fallbacks must be an array');
+  }
+
+  fallbacks.forEach((fallback, index) => {
+    if (!fallback || typeof fallback !== 'object') {
+      throw new ConfigurationError(`LLM fallback ${index} must be an object`);
+    }
+    for (const field of ['type', 'model']) {
+      if (typeof fallback[field] !== 'string' || !fallback[field]) {
+        throw new ConfigurationError(
+          `LLM fallback ${index} requires a non-empty string for '${field}'`
+        );
+      }
+    }
+  });
 }
 
 function validateServers(servers: Record<string, unknown>) {
@@ -79,38 +141,361 @@ function validateServers(servers: Record<string, unknown>) {
 
     const server = serverConfig as Partial<ServerConfig>;
 
-    if (typeof server.command !== 'string' || !server.command) {
-      throw new ConfigurationError(`Server '${serverName}' requires a command`);
+    if (
+      server.transport !== undefined &&
+      !SERVER_TRANSPORTS.includes(server.transport)
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' transport must be one of ${SERVER_TRANSPORTS.join(
+          ', '
+        )}`
+      );
+    }
+
+    if (isRemoteServer(server)) {
+      validateRemoteServer(serverName, server);
+    } else {
+      validateStdioServer(serverName, server);
     }
 
-    if (!Array.isArray(server.args)) {
+    if (server.isolated !== undefined && typeof server.isolated !== 'boolean') {
       throw new ConfigurationError(
-        `Server '${serverName}' args must be an array`
+        `Server '${serverName}' isolated must be a boolean`
       );
     }
 
-    if (!server.env || typeof server.env !== 'object') {
+    if (
+      server.launch !== undefined &&
+      !LAUNCH_MODES.includes(server.launch as ServerLaunchMode)
+    ) {
       throw new ConfigurationError(
-        `Server '${serverName}' env must be an object`
+        `Server '${serverName}' launch must be one of ${LAUNCH_MODES.join(', ')}`
       );
     }
 
-    // Validate that all args are strings
-    for (const arg of server.args) {
-      if (typeof arg !== 'string') {
-        throw new ConfigurationError(
-          `Server '${serverName}' args must all be strings`
-        );
-      }
+    if (server.optional !== undefined && typeof server.optional !== 'boolean') {
+      throw new ConfigurationError(
+        `Server '${serverName}' optional must be a boolean`
+      );
     }
 
-    // Validate that all env values are strings
-    for (const [key, value] of Object.entries(server.env)) {
-      if (typeof value !== 'string') {
-        throw new ConfigurationError(
-          `Server '${serverName}' env values must all be strings`
-        );
+    if (server.tools !== undefined) {
+      validateToolDeclarations(serverName, server.tools);
+    }
+
+    if (server.ping !== undefined) {
+      validatePingPolicy(serverName, server.ping);
+    }
+
+    if (server.restart !== undefined) {
+      validateRestartPolicy(serverName, server.restart);
+    }
+
+    if (
+      server.serialize_tool_calls !== undefined &&
+      typeof server.serialize_tool_calls !== 'boolean'
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' serialize_tool_calls must be a boolean`
+      );
+    }
+
+    if (
+      server.requires_approval !== undefined &&
+      typeof server.requires_approval !== 'boolean' &&
+      !(
+        Array.isArray(server.requires_approval) &&
+        server.requires_approval.every(name => typeof name === 'string')
+      )
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' requires_approval must be a boolean or an array of tool names`
+      );
+    }
+
+    if (
+      server.tool_timeout_ms !== undefined &&
+      !isPositiveNumber(server.tool_timeout_ms)
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' tool_timeout_ms must be a positive number`
+      );
+    }
+
+    if (
+      server.tool_timeouts !== undefined &&
+      (!server.tool_timeouts ||
+        typeof server.tool_timeouts !== 'object' ||
+        !Object.values(server.tool_timeouts).every(isPositiveNumber))
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' tool_timeouts must map tool names to positive numbers`
+      );
+    }
+  }
+}
+
+function validateToolDeclarations(serverName: string, tools: unknown) {
+  if (!Array.isArray(tools)) {
+    throw new ConfigurationError(
+      `Server '${serverName}' tools must be an array`
+    );
+  }
+
+  for (const tool of tools as Partial<ServerToolDeclaration>[]) {
+    if (!tool || typeof tool.name !== 'string' || !tool.name) {
+      throw new ConfigurationError(
+        `Server '${serverName}' tools must each have a name`
+      );
+    }
+    if (
+      tool.description !== undefined &&
+      typeof tool.description !== 'string'
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' tool '${tool.name}' description must be a string`
+      );
+    }
+    if (
+      tool.input_schema !== undefined &&
+      (!tool.input_schema ||
+        typeof tool.input_schema !== 'object' ||
+        tool.input_schema.type !== 'object')
+    ) {
+      throw new ConfigurationError(
+        `Server '${serverName}' tool '${tool.name}' input_schema must be a JSON Schema of type object`
+      );
+    }
+  }
+}
+
+function validatePingPolicy(serverName: string, ping: unknown) {
+  if (!ping || typeof ping !== 'object' || Array.isArray(ping)) {
+    throw new ConfigurationError(
+      `Server '${serverName}' ping must be an object`
+    );
+  }
+
+  const { interval_ms, timeout_ms, failure_threshold } =
+    ping as ServerPingPolicy;
+  for (const [field, value] of Object.entries({ interval_ms, timeout_ms })) {
+    if (value !== undefined && !isPositiveNumber(value)) {
+      throw new ConfigurationError(
+        `Server '${serverName}' ping.${field} must be a positive number`
+      );
+    }
+  }
+  if (
+    failure_threshold !== undefined &&
+    !(Number.isInteger(failure_threshold) && failure_threshold > 0)
+  ) {
+    throw new ConfigurationError(
+      `Server '${serverName}' ping.failure_threshold must be a positive integer`
+    );
+  }
+}
+
+function validateRestartPolicy(serverName: string, restart: unknown) {
+  if (!restart || typeof restart !== 'object' || Array.isArray(restart)) {
+    throw new ConfigurationError(
+      `Server '${serverName}' restart must be an object`
+    );
+  }
+
+  const { max_attempts, initial_delay_ms, max_delay_ms } =
+    restart as ServerRestartPolicy;
+  if (
+    max_attempts !== undefined &&
+    !(Number.isInteger(max_attempts) && max_attempts >= 0)
+  ) {
+    throw new ConfigurationError(
+      `Server '${serverName}' restart.max_attempts must be a non-negative integer`
+    );
+  }
+  for (const [field, value] of Object.entries({
+    initial_delay_ms,
+    max_delay_ms,
+  })) {
+    if (value !== undefined && !isPositiveNumber(value)) {
+      throw new ConfigurationError(
+        `Server '${serverName}' restart.${field} must be a positive number`
+      );
+    }
+  }
+}
+
+function validateStdioServer(
+  serverName: string,
+  server: Partial<ServerConfig>
+) {
+  if (typeof server.command !== 'string' || !server.command) {
+    throw new ConfigurationError(`Server '${serverName}' requires a command`);
+  }
+
+  if (!Array.isArray(server.args)) {
+    throw new ConfigurationError(
+      `Server '${serverName}' args must be an array`
+    );
+  }
+
+  if (!server.env || typeof server.env !== 'object') {
+    throw new ConfigurationError(
+      `Server '${serverName}' env must be an object`
+    );
+  }
+
+  // Validate that all args are strings
+  for (const arg of server.args) {
+    if (typeof arg !== 'string') {
+      throw new ConfigurationError(
+        `Server '${serverName}' args must all be strings`
+      );
+    }
+  }
+
+  // Validate that all env values are strings
+  for (const value of Object.values(server.env)) {
+    if (typeof value !== 'string') {
+      throw new ConfigurationError(
+        `Server '${serverName}' env values must all be strings`
+      );
+    }
+  }
+
+  if (server.ready !== undefined) {
+    validateReadiness(serverName, server.ready);
+  }
+
+  if (
+    server.launch_timeout_ms !== undefined &&
+    !isPositiveNumber(server.launch_timeout_ms)
+  ) {
+    throw new ConfigurationError(
+      `Server '${serverName}' launch_timeout_ms must be a positive number`
+    );
+  }
+
+  if (server.health_check !== undefined) {
+    validateHealthCheck(serverName, server.health_check);
+  }
+}
+
+function validateReadiness(serverName: string, ready: unknown) {
+  const readiness = (ready ?? {}) as Record<string, unknown>;
+  const invalid = (message: string) =>
+    new ConfigurationError(`Server '${serverName}' ready ${message}`);
+
+  switch (readiness.type) {
+    case 'log':
+      if (
+        typeof readiness.pattern !== 'string' ||
+        !isRegExp(readiness.pattern)
+      ) {
+        throw invalid('pattern must be a regular expression');
+      }
+      if (
+        readiness.stream !== undefined &&
+        readiness.stream !== 'stderr' &&
+        readiness.stream !== 'stdout'
+      ) {
+        throw invalid('stream must be stderr or stdout');
       }
+      break;
+    case 'initialize':
+      break;
+    case 'delay':
+      if (!isPositiveNumber(readiness.ms)) {
+        throw invalid('ms must be a positive number');
+      }
+      break;
+    case 'tcp':
+      if (
+        !Number.isInteger(readiness.port) ||
+        (readiness.port as number) < 1 ||
+        (readiness.port as number) > 65535
+      ) {
+        throw invalid('port must be a port number');
+      }
+      if (readiness.host !== undefined && typeof readiness.host !== 'string') {
+        throw invalid('host must be a string');
+      }
+      break;
+    case 'http':
+      if (typeof readiness.url !== 'string' || !isHttpUrl(readiness.url)) {
+        throw invalid('requires an http or https url');
+      }
+      break;
+    default:
+      throw invalid(`type must be one of ${READINESS_TYPES.join(', ')}`);
+  }
+}
+
+function validateHealthCheck(serverName: string, healthCheck: unknown) {
+  if (
+    !healthCheck ||
+    typeof healthCheck !== 'object' ||
+    Array.isArray(healthCheck)
+  ) {
+    throw new ConfigurationError(
+      `Server '${serverName}' health_check must be an object`
+    );
+  }
+
+  const { retries, interval_ms, timeout_ms } = healthCheck as ServerHealthCheck;
+  if (retries !== undefined && !(Number.isInteger(retries) && retries > 0)) {
+    throw new ConfigurationError(
+      `Server '${serverName}' health_check.retries must be a positive integer`
+    );
+  }
+  for (const [field, value] of Object.entries({ interval_ms, timeout_ms })) {
+    if (value !== undefined && !isPositiveNumber(value)) {
+      throw new ConfigurationError(
+        `Server '${serverName}' health_check.${field} must be a positive number`
+      );
     }
   }
 }
+
+function validateRemoteServer(
+  serverName: string,
+  server: Partial<ServerConfig>
+) {
+  if (typeof server.url !== 'string' || !isHttpUrl(server.url)) {
+    throw new ConfigurationError(
+      `Server '${serverName}' requires an http or https url`
+    );
+  }
+
+  if (
+    server.headers !== undefined &&
+    (!server.headers ||
+      typeof server.headers !== 'object' ||
+      !Object.values(server.headers).every(value => typeof value === 'string'))
+  ) {
+    throw new ConfigurationError(
+      `Server '${serverName}' headers must map header names to strings`
+    );
+  }
+}
+
+function isRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -2,10 +2,92 @@
  * Configuration types for the MCP client
  */
 
+/**
+ * How the client reaches a server: a launched process over stdio, or a
+ * running service over Streamable HTTP or SSE
+ */
+export type ServerTransport = 'stdio' | 'http' | 'sse';
+
+/**
+ * When a server starts: with the session, or on the model's first call to
+ * one of its tools
+ */
+export type ServerLaunchMode = 'eager' | 'lazy';
+
+/**
+ * A tool a lazy server provides, so the model can call it before the server
+ * has started
+ */
+export interface ServerToolDeclaration {
+  name: string;
+  description?: string;
+  input_schema?: Record<string, unknown>; // JSON Schema of type object for the arguments
+}
+
+/**
+ * How the launcher tells a stdio server has started
+ */
+export type ServerReadiness =
+  // A regular expression matches the server's output, stderr by default
+  | { type: 'log'; pattern: string; stream?: 'stderr' | 'stdout' }
+  // The server answers an MCP initialize request
+  | { type: 'initialize' }
+  // The server is assumed ready after a fixed delay
+  | { type: 'delay'; ms: number }
+  // A TCP connection to the port succeeds
+  | { type: 'tcp'; port: number; host?: string }
+  // A GET request returns a 2xx status
+  | { type: 'http'; url: string };
+
+/**
+ * Checks that a launched server's process is running, once it is ready
+ */
+export interface ServerHealthCheck {
+  retries?: number; // Defaults to 3
+  interval_ms?: number; // Between retries, defaults to 2000
+  timeout_ms?: number; // For all attempts together, defaults to 10000
+}
+
+/**
+ * MCP pings sent to a connected server to check it still answers requests.
+ * A server that misses failure_threshold pings in a row is restarted.
+ */
+export interface ServerPingPolicy {
+  interval_ms?: number; // Defaults to 30000
+  timeout_ms?: number; // Defaults to 10000
+  failure_threshold?: number; // Defaults to 3
+}
+
+/**
+ * How a server is restarted after it exits or its connection drops. Delays
+ * double after each failed attempt, up to max_delay_ms.
+ */
+export interface ServerRestartPolicy {
+  max_attempts?: number; // Defaults to 5; 0 disables restarts
+  initial_delay_ms?: number; // Delay before the first attempt, defaults to 1000
+  max_delay_ms?: number; // Defaults to 30000
+}
+
 export interface ServerConfig {
-  command: string;
-  args: string[];
+  transport?: ServerTransport; // Defaults to stdio
+  command?: string; // Required for stdio servers
+  args?: string[];
   env?: Record<string, string>;
+  url?: string; // Endpoint of an http or sse server
+  headers?: Record<string, string>; // Sent with every request to an http or sse server
+  isolated?: boolean; // Give each session its own instance instead of sharing one
+  launch?: ServerLaunchMode; // Defaults to eager
+  optional?: boolean; // The session is created even if the server can't start
+  tools?: ServerToolDeclaration[]; // Tools of a lazy server, until it has been discovered
+  ready?: ServerReadiness; // Defaults to a stderr line saying the server is running on stdio
+  launch_timeout_ms?: number; // How long to wait for the server to be ready, defaults to 15000
+  health_check?: ServerHealthCheck;
+  ping?: ServerPingPolicy;
+  restart?: ServerRestartPolicy; // Restarting after the server exits or disconnects
+  serialize_tool_calls?: boolean; // Run this server's calls one at a time within a turn
+  requires_approval?: boolean | string[]; // Hold all, or the listed, tool calls for host approval
+  tool_timeout_ms?: number; // Timeout for this server's tool calls
+  tool_timeouts?: Record<string, number>; // Per-tool timeouts in ms, overriding tool_timeout_ms
 }
 
 export interface MCPConfig {
@@ -14,13 +96,28 @@ export interface MCPConfig {
   servers: Record<string, ServerConfig>;
 }
 
+/**
+ * Alternate model tried when the primary model fails with a
+ * rate-limit, overload or server error
+ */
+export interface LLMFallbackConfig {
+  type: string;
+  model: string;
+  api_key?: string; // Defaults to the primary api_key
+  base_url?: string;
+}
+
 export interface LLMConfig {
   type: string;
   api_key: string;
   model: string;
   system_prompt: string;
+  base_url?: string; // Override the provider's API endpoint (e.g. local OpenAI-compatible servers)
   max_tool_calls?: number;
   use_tools?: boolean;
+  namespace_tools?: boolean; // Expose tools to the model as `server__tool`
+  roots?: string[]; // Workspace directories (paths or file:// URIs) offered to servers as MCP roots
+  fallbacks?: LLMFallbackConfig[]; // Ordered list tried after the primary model
   servers?: Record<string, ServerConfig>;
   thinking?: {
     enabled?: boolean;
@@ -36,9 +133,16 @@ export interface LLMConfig {
   };
 }
 
+/**
+ * Whether a server is reached over the network rather than launched
+ */
+export function isRemoteServer(config: ServerConfig): boolean {
+  return config.transport === 'http' || config.transport === 'sse';
+}
+
 export class ConfigurationError extends Error {
   constructor(message: string) {
     super(message);
     this.name = 'ConfigurationError';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildFallbackChain, isRetryableLLMError } from './fallback';
+import { LLMConfig } from '../config/types';
+import { LLMProviderError } from './types';
+
+describe('Model Fallback', () => {
+  const config: LLMConfig = {
+    type: 'claude',
+    api_key: 'anthropic-key',
+    model: 'claude-3-5-sonnet-20241022',
+    system_prompt: 'You are a helpful assistant.',
+    base_url: 'https://proxy.example.com',
+    fallbacks: [
+      { type: 'claude', model: 'claude-3-5-haiku-20241022' },
+      { type: 'openai', model: 'gpt-4o', api_key: 'openai-key' },
+    ],
+  };
+
+  it('should treat rate limits, overloads and server errors as retryable', () => {
+    expect(isRetryableLLMError({ status: 429 })).toBe(true);
+    expect(isRetryableLLMError({ status: 529 })).toBe(true);
+    expect(isRetryableLLMError({ status: 503 })).toBe(true);
+    expect(
+      isRetryableLLMError(new LLMProviderError('boom', 'openai', 500))
+    ).toBe(true);
+    expect(
+      isRetryableLLMError({ error: { error: { type: 'overloaded_error' } } })
+    ).toBe(true);
+  });
+
+  it('should not retry client errors', () => {
+    expect(isRetryableLLMError({ status: 400 })).toBe(false);
+    expect(isRetryableLLMError({ status: 401 })).toBe(false);
+    expect(isRetryableLLMError(new Error('Invalid tool parameters'))).toBe(
+      false
+    );
+  });
+
+  it('should build the chain in declared order inheriting primary settings', () => {
+    const chain = buildFallbackChain(config);
+
+    expect(chain.map(c => `${c.type}/${c.model}`)).toEqual([
+      'claude/claude-3-5-sonnet-20241022',
+      'claude/claude-3-5-haiku-20241022',
+      'openai/gpt-4o',
+    ]);
+    expect(chain[1].api_key).toBe('anthropic-key');
+    expect(chain[1].base_url).toBe('https://proxy.example.com');
+    expect(chain[2].api_key).toBe('openai-key');
+    expect(chain[2].base_url).toBeUndefined();
+    expect(chain[2].system_prompt).toBe(config.system_prompt);
+  });
+
+  it('should return only the primary config when no fallbacks are set', () => {
+    const { fallbacks, ...primary } = config;
+    expect(buildFallbackChain(primary)).toEqual([primary]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Provider/model fallback utilities.
+ * Decides which errors are worth retrying on another model and builds the
+ * ordered chain of configurations to try for a session.
+ */
+import { LLMConfig } from '../config/types';
+import { FallbackAttempt } from './types';
+
+// Anthropic returns 529 when the API is overloaded
+const OVERLOADED_STATUS = 529;
+const RATE_LIMIT_STATUS = 429;
+
+// Error types reported in provider error bodies
+const RETRYABLE_ERROR_TYPES = [
+  'rate_limit_error',
+  'overloaded_error',
+  'api_error',
+];
+
+/**
+ * Extract an HTTP status code from a provider or SDK error, if present
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Determine whether an error is a rate-limit, overload or server error
+ * that another model may be able to serve
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return (
+      status === RATE_LIMIT_STATUS ||
+      status === OVERLOADED_STATUS ||
+      status >= 500
+    );
+  }
+
+  const errorType = (error as { error?: { error?: { type?: string } } })?.error
+    ?.error?.type;
+  return !!errorType && RETRYABLE_ERROR_TYPES.includes(errorType);
+}
+
+/**
+ * Build the ordered list of configurations to try: the primary
+ * configuration followed by each declared fallback
+ */
+export function buildFallbackChain(config: LLMConfig): LLMConfig[] {
+  const fallbacks = (config.fallbacks || []).map(fallback => ({
+    ...config,
+    type: fallback.type,
+    model: fallback.model,
+    api_key: fallback.api_key || config.api_key,
+    // Only reuse the primary endpoint override for the same provider type
+    base_url:
+      fallback.base_url ??
+      (fallback.type === config.type ? config.base_url : undefined),
+  }));
+  return [config, ...fallbacks];
+}
+
+/**
+ * Describe a failed attempt for recording on the resulting message
+ */
+export function toFallbackAttempt(
+  config: LLMConfig,
+  error: unknown
+): FallbackAttempt {
+  return {
+    type: config.type,
+    model: config.model,
+    error: error instanceof Error ? error.message : String(error),
+    status: getErrorStatus(error),
+  };
+}
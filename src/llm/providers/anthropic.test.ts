@@ -0,0 +1,252 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { AnthropicProvider } from './anthropic';
+import { LLMRequest } from './types';
+
+const mockCreate = vi.fn();
+vi.mock('@anthropic-ai/sdk', () => ({
+  Anthropic: vi.fn().mockImplementation(() => ({
+    messages: { create: mockCreate },
+  })),
+}));
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+  let request: LLMRequest;
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+    provider = new AnthropicProvider({
+      type: 'claude',
+      api_key: 'test-key',
+      model: 'claude-3-5-sonnet-20241022',
+      system_prompt: 'You are a helpful assistant.',
+    });
+    request = {
+      model: 'claude-3-5-sonnet-20241022',
+      systemPrompt: 'You are a helpful assistant.',
+      messages: [
+        { role: 'system', content: 'You are a helpful assistant.' },
+        { role: 'user', content: 'List the files' },
+      ],
+      tools: [
+        {
+          name: 'list_files',
+          description: 'List files in a directory',
+          inputSchema: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+          },
+        },
+      ],
+      maxTokens: 1024,
+    };
+  });
+
+  it('should build Messages API parameters from a request', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'Hello' }],
+    });
+
+    await provider.sendMessage(request);
+
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 1024,
+        system: 'You are a helpful assistant.',
+        messages: [{ role: 'user', content: 'List the files' }],
+        tools: [
+          expect.objectContaining({
+            name: 'list_files',
+            input_schema: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+            },
+          }),
+        ],
+      })
+    );
+  });
+
+  it('should forward the full input schema, including required', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        path: { type: 'string' },
+        options: {
+          type: 'object',
+          properties: { depth: { type: 'integer' } },
+          required: ['depth'],
+        },
+      },
+      required: ['path'],
+      additionalProperties: false,
+    };
+
+    expect(
+      provider.formatTools([{ name: 'list_files', inputSchema: schema }])
+    ).toEqual([{ name: 'list_files', input_schema: schema, description: '' }]);
+  });
+
+  it('should normalize text and tool_use blocks', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'list_files',
+          input: { path: '/tmp' },
+        },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+
+    const response = await provider.sendMessage(request);
+
+    expect(response.text).toBe('Let me check.');
+    expect(response.toolCalls).toEqual([
+      { id: 'toolu_1', name: 'list_files', parameters: { path: '/tmp' } },
+    ]);
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.usage).toEqual({ inputTokens: 10, outputTokens: 5 });
+  });
+
+  it('should replay structured blocks with tool_use and tool_result IDs', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'Done' }],
+    });
+
+    await provider.sendMessage({
+      ...request,
+      messages: [
+        ...request.messages,
+        {
+          role: 'assistant',
+          content: 'I need to use the list_files tool.',
+          blocks: [
+            { type: 'thinking', thinking: 'Need a listing', signature: 'sig' },
+            {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'list_files',
+              input: { path: '/tmp' },
+            },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: 'permission denied',
+          isToolResult: true,
+          blocks: [
+            {
+              type: 'tool_result',
+              toolUseId: 'toolu_1',
+              content: 'permission denied',
+              isError: true,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(mockCreate.mock.calls[0][0].messages).toEqual([
+      { role: 'user', content: 'List the files' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'Need a listing', signature: 'sig' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'list_files',
+            input: { path: '/tmp' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: 'permission denied',
+            is_error: true,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should keep thinking signatures in response blocks', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [
+        { type: 'thinking', thinking: 'Hmm', signature: 'sig' },
+        { type: 'text', text: 'Hello' },
+      ],
+    });
+
+    const response = await provider.sendMessage(request);
+
+    expect(response.blocks).toEqual([
+      { type: 'thinking', thinking: 'Hmm', signature: 'sig' },
+      { type: 'text', text: 'Hello' },
+    ]);
+  });
+
+  it('should add thinking parameters for models that support it', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'Hello' }],
+    });
+
+    await provider.sendMessage({
+      ...request,
+      model: 'claude-3-7-sonnet-20250219',
+      thinking: { budget_tokens: 2000 },
+    });
+
+    expect(mockCreate.mock.calls[0][0].thinking).toEqual({
+      type: 'enabled',
+      budget_tokens: 2000,
+    });
+  });
+
+  it('should map stream chunks to provider events', async () => {
+    mockCreate.mockResolvedValueOnce({
+      [Symbol.asyncIterator]: async function* () {
+        yield {
+          type: 'content_block_delta',
+          delta: { type: 'text_delta', text: 'Checking' },
+        };
+        yield {
+          type: 'content_block_start',
+          content_block: { type: 'tool_use', id: 'toolu_1', name: 'list_files' },
+        };
+        yield {
+          type: 'content_block_delta',
+          delta: { type: 'input_json_delta', partial_json: '{"path":' },
+        };
+        yield {
+          type: 'message_delta',
+          delta: { stop_reason: 'tool_use' },
+          usage: { output_tokens: 12 },
+        };
+      },
+    });
+
+    const events = [];
+    for await (const event of provider.streamMessage(request)) {
+      events.push(event);
+    }
+
+    expect(mockCreate.mock.calls[0][0].stream).toBe(true);
+    expect(events).toEqual([
+      { type: 'content', content: 'Checking' },
+      { type: 'tool_start', toolCall: { id: 'toolu_1', name: 'list_files' } },
+      { type: 'tool_delta', partialJson: '{"path":' },
+      { type: 'usage', usage: { inputTokens: undefined, outputTokens: 12 } },
+      { type: 'stop', stopReason: 'tool_use' },
+    ]);
+  });
+});
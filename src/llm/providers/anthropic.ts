@@ -0,0 +1,369 @@
+/**
+ * Anthropic Messages API provider.
+ * Holds everything Anthropic-specific: client construction, request
+ * parameters (including extended thinking), tool formatting and parsing.
+ */
+import { Anthropic } from '@anthropic-ai/sdk';
+import type {
+  ContentBlockParam,
+  Message,
+  MessageCreateParamsNonStreaming,
+  RawMessageDeltaEvent,
+  RawMessageStreamEvent,
+  TextBlock as ApiTextBlock,
+  Tool,
+  ToolUseBlock as ApiToolUseBlock,
+} from '@anthropic-ai/sdk/resources/messages/messages';
+import { LLMConfig } from '../../config/types';
+import {
+  ChatMessage,
+  ContentBlock,
+  MCPTool,
+  TextBlock,
+  ToolCall,
+} from '../types';
+import {
+  countTokens,
+  supportsThinking,
+  getDefaultThinkingBudget,
+} from '../token-counter';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent } from './types';
+
+// The installed SDK's types predate extended thinking, so the parts of the
+// Messages API that carry it are described here
+interface ApiThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+interface ApiRedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+type ApiContentBlock =
+  Message['content'][number] | ApiThinkingBlock | ApiRedactedThinkingBlock;
+
+type ApiMessage = Omit<Message, 'content'> & { content: ApiContentBlock[] };
+
+type ApiContentBlockParam =
+  ContentBlockParam | ApiThinkingBlock | ApiRedactedThinkingBlock;
+
+interface ApiMessageParam {
+  role: 'user' | 'assistant';
+  content: string | ApiContentBlockParam[];
+}
+
+type ApiParams = Omit<MessageCreateParamsNonStreaming, 'messages'> & {
+  messages: ApiMessageParam[];
+  thinking?: { type: 'enabled'; budget_tokens: number };
+};
+
+type ApiStreamEvent =
+  | Exclude<RawMessageStreamEvent, RawMessageDeltaEvent>
+  | (RawMessageDeltaEvent & { usage: { input_tokens?: number } })
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: ApiThinkingBlock | ApiRedactedThinkingBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'thinking_delta'; thinking: string }
+        | { type: 'signature_delta'; signature: string };
+    }
+  | { type: 'thinking'; thinking?: string };
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(config: LLMConfig) {
+    console.log('[ANTHROPIC] Initializing Anthropic client');
+    this.client = new Anthropic({
+      apiKey: config.api_key,
+    });
+  }
+
+  formatTools(tools: MCPTool[]): Tool[] {
+    console.log('[ANTHROPIC] Formatting tools for LLM:', tools);
+    return tools.map((tool: MCPTool) => ({
+      name: tool.name,
+      input_schema: {
+        ...tool.inputSchema,
+        type: 'object',
+        properties: tool.inputSchema?.properties || {},
+      },
+      description: tool.description || '',
+    }));
+  }
+
+  parseToolCalls(response: unknown): ToolCall[] {
+    const content = (response as Partial<ApiMessage>)?.content || [];
+    return content
+      .filter((block): block is ApiToolUseBlock => block.type === 'tool_use')
+      .filter(toolUse => toolUse.id && toolUse.name && toolUse.input)
+      .map(toolUse => ({
+        id: toolUse.id,
+        name: toolUse.name,
+        parameters: toolUse.input as Record<string, unknown>,
+      }));
+  }
+
+  countTokens(text: string, model: string): number {
+    return countTokens(text, model);
+  }
+
+  async sendMessage(request: LLMRequest): Promise<LLMResponse> {
+    const apiParams = this.buildParams(request);
+
+    console.log('[ANTHROPIC] Sending message to Anthropic');
+    const response: ApiMessage = await this.client.messages.create(
+      this.sdkParams(apiParams),
+      ...this.requestOptions(request)
+    );
+    console.log(
+      '[ANTHROPIC] Response content:',
+      JSON.stringify(response.content)
+    );
+
+    const textContent = (response.content || []).filter(
+      (block): block is ApiTextBlock => block.type === 'text'
+    );
+
+    return {
+      text: textContent.length > 0 ? textContent[0].text : '',
+      toolCalls: this.parseToolCalls(response),
+      blocks: this.parseContentBlocks(response.content || []),
+      stopReason: response.stop_reason ?? undefined,
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.input_tokens,
+            outputTokens: response.usage.output_tokens,
+          }
+        : undefined,
+      raw: response,
+    };
+  }
+
+  async *streamMessage(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const apiParams = this.buildParams(request);
+
+    console.log('[ANTHROPIC] Creating Anthropic stream');
+    const stream: AsyncIterable<ApiStreamEvent> =
+      await this.client.messages.create(
+        { ...this.sdkParams(apiParams), stream: true },
+        ...this.requestOptions(request)
+      );
+
+    // Use the Anthropic SDK's built-in async iterator
+    const iterator = stream[Symbol.asyncIterator]();
+    let iterResult = await iterator.next();
+
+    while (!iterResult.done) {
+      const chunk = iterResult.value;
+
+      if (
+        chunk.type === 'content_block_delta' &&
+        chunk.delta.type === 'text_delta'
+      ) {
+        yield { type: 'content', content: chunk.delta.text };
+      } else if (
+        chunk.type === 'content_block_delta' &&
+        chunk.delta.type === 'thinking_delta'
+      ) {
+        yield { type: 'thinking', content: chunk.delta.thinking };
+      } else if (
+        chunk.type === 'content_block_delta' &&
+        chunk.delta.type === 'signature_delta'
+      ) {
+        yield { type: 'thinking_signature', signature: chunk.delta.signature };
+      } else if (
+        chunk.type === 'content_block_start' &&
+        chunk.content_block.type === 'redacted_thinking'
+      ) {
+        yield { type: 'redacted_thinking', data: chunk.content_block.data };
+      } else if (chunk.type === 'thinking') {
+        console.log('[ANTHROPIC] Received thinking chunk');
+        yield {
+          type: 'thinking',
+          content: chunk.thinking || 'Thinking...',
+        };
+      } else if (
+        chunk.type === 'content_block_start' &&
+        chunk.content_block.type === 'tool_use'
+      ) {
+        console.log(
+          '[ANTHROPIC] Tool call detected in stream',
+          JSON.stringify(chunk.content_block)
+        );
+        yield {
+          type: 'tool_start',
+          toolCall: {
+            id: chunk.content_block.id,
+            name: chunk.content_block.name || 'unknown',
+          },
+        };
+      } else if (
+        chunk.type === 'content_block_delta' &&
+        chunk.delta.type === 'input_json_delta'
+      ) {
+        yield {
+          type: 'tool_delta',
+          partialJson: chunk.delta.partial_json || '',
+        };
+      } else if (chunk.type === 'message_delta') {
+        if (chunk.usage) {
+          console.log('[ANTHROPIC] Usage information received:', chunk.usage);
+          yield {
+            type: 'usage',
+            usage: {
+              inputTokens: chunk.usage.input_tokens,
+              outputTokens: chunk.usage.output_tokens,
+            },
+          };
+        }
+        if (chunk.delta?.stop_reason) {
+          yield { type: 'stop', stopReason: chunk.delta.stop_reason };
+        }
+      }
+
+      iterResult = await iterator.next();
+    }
+  }
+
+  /**
+   * Trailing SDK request options, passed only when there is something to set
+   */
+  private requestOptions(request: LLMRequest): [] | [{ signal: AbortSignal }] {
+    return request.signal ? [{ signal: request.signal }] : [];
+  }
+
+  /**
+   * Build Messages API parameters shared by streaming and non-streaming calls
+   */
+  private buildParams(request: LLMRequest): ApiParams {
+    const apiParams: ApiParams = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.systemPrompt,
+      messages: this.formatMessages(request.messages),
+      tools:
+        request.tools && request.tools.length > 0
+          ? this.formatTools(request.tools)
+          : undefined,
+    };
+
+    // Add thinking parameter for Claude 3.7+ models
+    if (supportsThinking(request.model)) {
+      // If thinking is explicitly disabled in config, don't add it
+      if (request.thinking?.enabled !== false) {
+        // Get budget from config or use default
+        const budgetTokens =
+          request.thinking?.budget_tokens ||
+          getDefaultThinkingBudget(request.model);
+
+        apiParams.thinking = {
+          type: 'enabled',
+          budget_tokens: budgetTokens,
+        };
+
+        console.log(
+          `[ANTHROPIC] Added thinking with budget: ${budgetTokens} tokens`
+        );
+      }
+    }
+
+    return apiParams;
+  }
+
+  /**
+   * Hand parameters to the SDK, whose types don't know thinking blocks or
+   * the thinking parameter
+   */
+  private sdkParams(apiParams: ApiParams): MessageCreateParamsNonStreaming {
+    return apiParams as unknown as MessageCreateParamsNonStreaming;
+  }
+
+  /**
+   * Convert Messages API content blocks into session content blocks
+   */
+  private parseContentBlocks(content: ApiContentBlock[]): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+    for (const block of content) {
+      if (block.type === 'text') {
+        blocks.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use') {
+        blocks.push({
+          type: 'tool_use',
+          id: block.id,
+          name: block.name,
+          input: (block.input as Record<string, unknown>) || {},
+        });
+      } else if (block.type === 'thinking') {
+        blocks.push({
+          type: 'thinking',
+          thinking: block.thinking,
+          signature: block.signature,
+        });
+      } else if (block.type === 'redacted_thinking') {
+        blocks.push({ type: 'redacted_thinking', data: block.data });
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * Convert a session content block back into Messages API format
+   */
+  private formatContentBlock(block: ContentBlock): ApiContentBlockParam {
+    switch (block.type) {
+      case 'tool_result':
+        return {
+          type: 'tool_result',
+          tool_use_id: block.toolUseId,
+          content: block.content,
+          ...(block.isError ? { is_error: true } : {}),
+        };
+      case 'thinking':
+        // Unsigned thinking is dropped before formatting
+        return { ...block, signature: block.signature ?? '' };
+      default:
+        return block;
+    }
+  }
+
+  private formatMessages(messages: ChatMessage[]): ApiMessageParam[] {
+    return messages
+      .filter(msg => msg.role !== 'system')
+      .map(msg => ({
+        ...msg,
+        // The API rejects thinking blocks it didn't sign
+        blocks: msg.blocks?.filter(
+          block => block.type !== 'thinking' || block.signature
+        ),
+      }))
+      .map((msg): ApiMessageParam => {
+        // Plain text replies are sent as a string, same as before blocks
+        if (!msg.blocks || msg.blocks.every(b => b.type === 'text')) {
+          return {
+            role: msg.role === 'assistant' ? 'assistant' : 'user',
+            content: msg.blocks?.length
+              ? msg.blocks.map(b => (b as TextBlock).text).join('')
+              : msg.content,
+          };
+        }
+
+        // Tool results must be sent back in a user turn
+        const hasToolResult = msg.blocks.some(b => b.type === 'tool_result');
+        return {
+          role:
+            msg.role === 'assistant' && !hasToolResult ? 'assistant' : 'user',
+          content: msg.blocks.map(block => this.formatContentBlock(block)),
+        };
+      });
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIProvider } from './openai';
+import { LLMRequest } from './types';
+import { LLMError } from '../types';
+
+// Local stub of the /v1/chat/completions endpoint
+let server: http.Server;
+let baseUrl: string;
+let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any };
+let nextResponse: (res: http.ServerResponse) => void;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(body) };
+      nextResponse(res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function respondJson(status: number, data: unknown) {
+  nextResponse = res => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+}
+
+function respondStream(chunks: unknown[]) {
+  nextResponse = res => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const chunk of chunks) {
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  };
+}
+
+describe('OpenAIProvider', () => {
+  let provider: OpenAIProvider;
+  let request: LLMRequest;
+
+  beforeEach(() => {
+    provider = new OpenAIProvider({
+      type: 'openai',
+      api_key: 'test-key',
+      model: 'gpt-4o',
+      system_prompt: 'You are a helpful assistant.',
+      base_url: baseUrl,
+    });
+    request = {
+      model: 'gpt-4o',
+      systemPrompt: 'You are a helpful assistant.',
+      messages: [
+        { role: 'system', content: 'You are a helpful assistant.' },
+        { role: 'user', content: 'Read the readme' },
+      ],
+      tools: [
+        {
+          name: 'read_file',
+          description: 'Read a file',
+          inputSchema: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+      ],
+      maxTokens: 1024,
+    };
+  });
+
+  it('should send chat completion requests in OpenAI wire format', async () => {
+    respondJson(200, {
+      choices: [
+        { message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' },
+      ],
+      usage: { prompt_tokens: 12, completion_tokens: 3 },
+    });
+
+    const response = await provider.sendMessage(request);
+
+    expect(lastRequest.url).toBe('/v1/chat/completions');
+    expect(lastRequest.headers.authorization).toBe('Bearer test-key');
+    expect(lastRequest.body).toEqual({
+      model: 'gpt-4o',
+      max_tokens: 1024,
+      messages: [
+        { role: 'system', content: 'You are a helpful assistant.' },
+        { role: 'user', content: 'Read the readme' },
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Read a file',
+            parameters: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+              required: ['path'],
+            },
+          },
+        },
+      ],
+    });
+    expect(response.text).toBe('Hi');
+    expect(response.stopReason).toBe('stop');
+    expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 3 });
+  });
+
+  it('should map tool_calls into ToolCall objects', async () => {
+    respondJson(200, {
+      choices: [
+        {
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'read_file', arguments: '{"path":"README.md"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+
+    const response = await provider.sendMessage(request);
+
+    expect(response.text).toBe('');
+    expect(response.toolCalls).toEqual([
+      { id: 'call_1', name: 'read_file', parameters: { path: 'README.md' } },
+    ]);
+  });
+
+  it('should flag tool calls whose arguments are not valid JSON', async () => {
+    respondJson(200, {
+      choices: [
+        {
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'read_file', arguments: '{"path":' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+
+    const response = await provider.sendMessage(request);
+
+    expect(response.toolCalls).toEqual([
+      {
+        id: 'call_1',
+        name: 'read_file',
+        parameters: {},
+        invalidArguments: 'arguments are not valid JSON',
+      },
+    ]);
+  });
+
+  it('should replay tool calls and results as tool messages', async () => {
+    respondJson(200, {
+      choices: [{ message: { role: 'assistant', content: 'Done' } }],
+    });
+
+    await provider.sendMessage({
+      ...request,
+      messages: [
+        ...request.messages,
+        {
+          role: 'assistant',
+          content: 'I need to use the read_file tool.',
+          blocks: [
+            {
+              type: 'tool_use',
+              id: 'call_1',
+              name: 'read_file',
+              input: { path: 'README.md' },
+            },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: '# Readme',
+          isToolResult: true,
+          blocks: [
+            { type: 'tool_result', toolUseId: 'call_1', content: '# Readme' },
+          ],
+        },
+      ],
+    });
+
+    expect(lastRequest.body.messages.slice(2)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'read_file', arguments: '{"path":"README.md"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '# Readme' },
+    ]);
+  });
+
+  it('should stream content and tool call deltas', async () => {
+    respondStream([
+      { choices: [{ delta: { role: 'assistant', content: 'Let me ' } }] },
+      { choices: [{ delta: { content: 'check.' } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'read_file', arguments: '' },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: '{"path":' } }],
+            },
+          },
+        ],
+      },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 20, completion_tokens: 8 } },
+    ]);
+
+    const events = [];
+    for await (const event of provider.streamMessage(request)) {
+      events.push(event);
+    }
+
+    expect(lastRequest.body.stream).toBe(true);
+    expect(lastRequest.body.stream_options).toEqual({ include_usage: true });
+    expect(events).toEqual([
+      { type: 'content', content: 'Let me ' },
+      { type: 'content', content: 'check.' },
+      { type: 'tool_start', toolCall: { id: 'call_1', name: 'read_file' } },
+      { type: 'tool_delta', id: 'call_1', partialJson: '{"path":' },
+      { type: 'stop', stopReason: 'tool_calls' },
+      { type: 'usage', usage: { inputTokens: 20, outputTokens: 8 } },
+    ]);
+  });
+
+  it('should surface HTTP errors as LLMError', async () => {
+    respondJson(500, { error: { message: 'boom' } });
+
+    await expect(provider.sendMessage(request)).rejects.toThrow(LLMError);
+  });
+});
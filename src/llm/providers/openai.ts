@@ -0,0 +1,360 @@
+/**
+ * OpenAI-compatible chat completions provider.
+ * Speaks the `/v1/chat/completions` wire format over fetch, so it works
+ * against OpenAI itself as well as gateways and local inference servers
+ * (vLLM, llama.cpp server) by pointing `config.base_url` at them.
+ */
+import { LLMConfig } from '../../config/types';
+import {
+  ChatMessage,
+  ContentBlock,
+  LLMError,
+  LLMProviderError,
+  MCPTool,
+  ToolCall,
+} from '../types';
+import { countTokens } from '../token-counter';
+import { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAIFunctionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+interface OpenAIChatCompletion {
+  choices?: {
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }[];
+  usage?: OpenAIUsage;
+}
+
+// Streamed tool calls arrive in pieces; only the first carries the ID
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIChatCompletionChunk {
+  choices?: {
+    delta?: { content?: string | null; tool_calls?: OpenAIToolCallDelta[] };
+    finish_reason?: string | null;
+  }[];
+  // Only on the final chunk, when usage is requested
+  usage?: OpenAIUsage | null;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: LLMConfig) {
+    this.apiKey = config.api_key;
+    this.baseUrl = (config.base_url || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    console.log(`[OPENAI] Using chat completions endpoint at ${this.baseUrl}`);
+  }
+
+  formatTools(tools: MCPTool[]): OpenAIFunctionTool[] {
+    return tools.map((tool: MCPTool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters: {
+          ...tool.inputSchema,
+          type: 'object',
+          properties: tool.inputSchema?.properties || {},
+        },
+      },
+    }));
+  }
+
+  parseToolCalls(response: unknown): ToolCall[] {
+    const message = (response as OpenAIChatCompletion)?.choices?.[0]?.message;
+    const toolCalls = message?.tool_calls || [];
+    return toolCalls
+      .filter(toolCall => toolCall.function?.name)
+      .map(toolCall => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        ...this.parseArguments(toolCall.function.arguments),
+      }));
+  }
+
+  countTokens(text: string, model: string): number {
+    return countTokens(text, model);
+  }
+
+  async sendMessage(request: LLMRequest): Promise<LLMResponse> {
+    console.log('[OPENAI] Sending chat completion request');
+    const response = await this.post(
+      this.buildBody(request, false),
+      request.signal
+    );
+    const data = (await response.json()) as OpenAIChatCompletion;
+
+    const choice = data.choices?.[0];
+    const text: string = choice?.message?.content || '';
+    const toolCalls = this.parseToolCalls(data);
+    const blocks: ContentBlock[] = [
+      ...(text ? [{ type: 'text' as const, text }] : []),
+      ...toolCalls.map(toolCall => ({
+        type: 'tool_use' as const,
+        id: toolCall.id!,
+        name: toolCall.name,
+        input: toolCall.parameters,
+      })),
+    ];
+
+    return {
+      text,
+      toolCalls,
+      blocks,
+      stopReason: choice?.finish_reason ?? undefined,
+      usage: data.usage
+        ? {
+            inputTokens: data.usage.prompt_tokens,
+            outputTokens: data.usage.completion_tokens,
+          }
+        : undefined,
+      raw: data,
+    };
+  }
+
+  async *streamMessage(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    console.log('[OPENAI] Creating chat completion stream');
+    const response = await this.post(
+      this.buildBody(request, true),
+      request.signal
+    );
+    if (!response.body) {
+      throw new LLMError('OpenAI stream response has no body');
+    }
+
+    // Tool call ids only arrive on the first delta for each index
+    const toolCallIds = new Map<number, string>();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const payload = line.slice('data:'.length).trim();
+        if (payload === '[DONE]') {
+          return;
+        }
+
+        let chunk: OpenAIChatCompletionChunk;
+        try {
+          chunk = JSON.parse(payload);
+        } catch (error) {
+          console.error('[OPENAI] Failed to parse stream chunk:', payload);
+          continue;
+        }
+
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta || {};
+
+        if (delta.content) {
+          yield { type: 'content', content: delta.content };
+        }
+
+        for (const toolDelta of delta.tool_calls || []) {
+          const index = toolDelta.index ?? 0;
+          if (toolDelta.id && !toolCallIds.has(index)) {
+            toolCallIds.set(index, toolDelta.id);
+            yield {
+              type: 'tool_start',
+              toolCall: {
+                id: toolDelta.id,
+                name: toolDelta.function?.name || 'unknown',
+              },
+            };
+          }
+          if (toolDelta.function?.arguments) {
+            yield {
+              type: 'tool_delta',
+              id: toolCallIds.get(index),
+              partialJson: toolDelta.function.arguments,
+            };
+          }
+        }
+
+        if (chunk.usage) {
+          yield {
+            type: 'usage',
+            usage: {
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+            },
+          };
+        }
+
+        if (choice?.finish_reason) {
+          yield { type: 'stop', stopReason: choice.finish_reason };
+        }
+      }
+    }
+  }
+
+  private async post(
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `OpenAI API error (${response.status}): ${
+          errorText || response.statusText
+        }`,
+        this.name,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  private buildBody(
+    request: LLMRequest,
+    stream: boolean
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: this.formatMessages(request),
+    };
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = this.formatTools(request.tools);
+    }
+
+    if (stream) {
+      body.stream = true;
+      // Usage is only reported on streams that ask for it
+      body.stream_options = { include_usage: true };
+    }
+
+    return body;
+  }
+
+  private formatMessages(request: LLMRequest) {
+    const messages: Array<Record<string, unknown>> = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    for (const msg of request.messages.filter(m => m.role !== 'system')) {
+      messages.push(...this.formatMessage(msg));
+    }
+
+    return messages;
+  }
+
+  /**
+   * Convert a session message into one or more chat completion messages.
+   * Tool calls ride on the assistant message and each tool result becomes
+   * its own `tool` message; thinking blocks have no OpenAI equivalent.
+   */
+  private formatMessage(msg: ChatMessage): Array<Record<string, unknown>> {
+    const role = msg.role === 'assistant' ? 'assistant' : 'user';
+    if (!msg.blocks || msg.blocks.length === 0) {
+      return [{ role, content: msg.content }];
+    }
+
+    const text = msg.blocks
+      .filter(block => block.type === 'text')
+      .map(block => (block as { text: string }).text)
+      .join('\n');
+    const toolCalls: OpenAIToolCall[] = [];
+    const toolResults: Array<Record<string, unknown>> = [];
+
+    for (const block of msg.blocks) {
+      if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input),
+          },
+        });
+      } else if (block.type === 'tool_result') {
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: block.toolUseId,
+          content: block.content,
+        });
+      }
+    }
+
+    if (toolResults.length > 0) {
+      return toolResults;
+    }
+    if (toolCalls.length > 0) {
+      return [
+        { role: 'assistant', content: text || null, tool_calls: toolCalls },
+      ];
+    }
+    return [{ role, content: text || msg.content }];
+  }
+
+  /**
+   * Parse a tool call's JSON arguments. Arguments that don't parse are
+   * flagged on the call, so it is answered with an error instead of run.
+   */
+  private parseArguments(
+    args: string | undefined
+  ): Pick<ToolCall, 'parameters' | 'invalidArguments'> {
+    if (!args) {
+      return { parameters: {} };
+    }
+    try {
+      return { parameters: JSON.parse(args) };
+    } catch (error) {
+      console.error('[OPENAI] Failed to parse tool arguments:', args);
+      return {
+        parameters: {},
+        invalidArguments: 'arguments are not valid JSON',
+      };
+    }
+  }
+}
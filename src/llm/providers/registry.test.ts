@@ -0,0 +1,52 @@
+import { vi, describe, it, expect } from 'vitest';
+import {
+  createProvider,
+  registerProvider,
+  getSupportedProviders,
+} from './registry';
+import { AnthropicProvider } from './anthropic';
+import { LLMProvider } from './types';
+import { LLMConfig, ConfigurationError } from '../../config/types';
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  Anthropic: vi.fn().mockImplementation(() => ({
+    messages: { create: vi.fn() },
+  })),
+}));
+
+describe('Provider Registry', () => {
+  const baseConfig: LLMConfig = {
+    type: 'claude',
+    api_key: 'test-key',
+    model: 'claude-3-5-sonnet-20241022',
+    system_prompt: 'You are a helpful assistant.',
+  };
+
+  it('should create the Anthropic provider for claude and anthropic types', () => {
+    expect(createProvider(baseConfig)).toBeInstanceOf(AnthropicProvider);
+    expect(
+      createProvider({ ...baseConfig, type: 'Anthropic' })
+    ).toBeInstanceOf(AnthropicProvider);
+  });
+
+  it('should reject unknown provider types', () => {
+    expect(() =>
+      createProvider({ ...baseConfig, type: 'unknown-llm' })
+    ).toThrow(ConfigurationError);
+  });
+
+  it('should allow registering custom providers', () => {
+    const customProvider = { name: 'custom' } as unknown as LLMProvider;
+    const factory = vi.fn().mockReturnValue(customProvider);
+
+    registerProvider('custom', factory);
+
+    expect(getSupportedProviders()).toContain('custom');
+    expect(createProvider({ ...baseConfig, type: 'custom' })).toBe(
+      customProvider
+    );
+    expect(factory).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'custom' })
+    );
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Provider registry keyed on LLMConfig.type.
+ * Built-in providers are registered at module load; hosts can register
+ * additional backends without touching the session code.
+ */
+import { LLMConfig, ConfigurationError } from '../../config/types';
+import { LLMProvider, LLMProviderFactory } from './types';
+import { AnthropicProvider } from './anthropic';
+import { OpenAIProvider } from './openai';
+
+const providerFactories = new Map<string, LLMProviderFactory>();
+
+/**
+ * Register a provider factory for a config type (case-insensitive)
+ */
+export function registerProvider(
+  type: string,
+  factory: LLMProviderFactory
+): void {
+  providerFactories.set(type.toLowerCase(), factory);
+}
+
+/**
+ * List the config types that currently have a registered provider
+ */
+export function getSupportedProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Create the provider for a session's LLM configuration
+ * @throws ConfigurationError when no provider is registered for config.type
+ */
+export function createProvider(config: LLMConfig): LLMProvider {
+  const factory = providerFactories.get((config.type || '').toLowerCase());
+  if (!factory) {
+    throw new ConfigurationError(
+      `Unsupported LLM provider type '${
+        config.type
+      }' (supported: ${getSupportedProviders().join(', ')})`
+    );
+  }
+  return factory(config);
+}
+
+// Built-in providers
+registerProvider('anthropic', config => new AnthropicProvider(config));
+registerProvider('claude', config => new AnthropicProvider(config));
+registerProvider('openai', config => new OpenAIProvider(config));
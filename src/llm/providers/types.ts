@@ -0,0 +1,71 @@
+/**
+ * Provider abstraction types.
+ * Every LLM backend implements LLMProvider so SessionManager can stay
+ * independent of any particular vendor SDK or wire format.
+ */
+import { LLMConfig } from '../../config/types';
+import { ChatMessage, ContentBlock, MCPTool, ToolCall } from '../types';
+
+/**
+ * Provider-neutral request built by the session for each LLM call
+ */
+export interface LLMRequest {
+  model: string;
+  systemPrompt?: string;
+  messages: ChatMessage[];
+  tools?: MCPTool[];
+  maxTokens: number;
+  thinking?: LLMConfig['thinking'];
+  signal?: AbortSignal; // Aborts the underlying HTTP request
+}
+
+/**
+ * Token usage reported by the provider for a single call
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Normalized (non-streaming) response from a provider
+ */
+export interface LLMResponse {
+  text: string;
+  toolCalls: ToolCall[];
+  blocks?: ContentBlock[]; // Full structured reply, stored for faithful replay
+  stopReason?: string;
+  usage?: LLMUsage;
+  raw?: unknown;
+}
+
+/**
+ * Normalized streaming event emitted by a provider
+ */
+export type LLMStreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'thinking'; content: string }
+  | { type: 'thinking_signature'; signature: string }
+  | { type: 'redacted_thinking'; data: string }
+  | { type: 'tool_start'; toolCall: { id?: string; name: string } }
+  | { type: 'tool_delta'; id?: string; partialJson: string }
+  | { type: 'usage'; usage: Partial<LLMUsage> }
+  | { type: 'stop'; stopReason?: string };
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  sendMessage(request: LLMRequest): Promise<LLMResponse>;
+  streamMessage(request: LLMRequest): AsyncGenerator<LLMStreamEvent>;
+  countTokens(text: string, model: string): number;
+  formatTools(tools: MCPTool[]): unknown[];
+  parseToolCalls(response: unknown): ToolCall[];
+}
+
+/**
+ * Factory used by the provider registry to build a provider for a session
+ */
+export type LLMProviderFactory = (config: LLMConfig) => LLMProvider;
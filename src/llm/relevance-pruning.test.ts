@@ -18,7 +18,8 @@ vi.mock('@anthropic-ai/sdk', () => {
 });
 
 // Mock server dependencies
-vi.mock('../server/discovery', () => ({
+vi.mock('../server/discovery', async importOriginal => ({
+  ...(await importOriginal<typeof import('../server/discovery')>()),
   ServerDiscovery: vi.fn().mockImplementation(() => ({
     discoverCapabilities: vi.fn().mockResolvedValue({
       client: { callTool: vi.fn() },
@@ -264,6 +265,72 @@ describe('Relevance-Based Pruning', () => {
       );
       expect(totalTokens).toBeLessThanOrEqual(targetTokens);
     });
+
+    it('should keep or drop a tool call together with its result', () => {
+      const messages: ChatMessage[] = [
+        {
+          role: 'system',
+          content: 'You are a helpful assistant.',
+          timestamp: new Date(Date.now() - 10000),
+          tokens: 10,
+        },
+        {
+          role: 'user',
+          content: 'Search the logs for errors.',
+          timestamp: new Date(Date.now() - 9000),
+          tokens: 10,
+        },
+        {
+          role: 'assistant',
+          content: 'I need to use the search_logs tool.',
+          hasToolCall: true,
+          toolCall: { id: 'toolu_1', name: 'search_logs', parameters: {} },
+          timestamp: new Date(Date.now() - 8000),
+          tokens: 10,
+        },
+        {
+          role: 'assistant',
+          content: 'ERROR '.repeat(200),
+          isToolResult: true,
+          blocks: [
+            {
+              type: 'tool_result',
+              toolUseId: 'toolu_1',
+              content: 'ERROR '.repeat(200),
+            },
+          ],
+          timestamp: new Date(Date.now() - 7000),
+          tokens: 200,
+        },
+        {
+          role: 'user',
+          content: 'Thanks.',
+          timestamp: new Date(Date.now() - 6000),
+          tokens: 10,
+        },
+        {
+          role: 'assistant',
+          content: "You're welcome.",
+          timestamp: new Date(Date.now() - 5000),
+          tokens: 10,
+        },
+      ];
+
+      const prunedMessages = pruneMessagesByRelevance(
+        messages,
+        {
+          maxTokenLimit: 100,
+          autoTruncate: true,
+          preserveSystemMessages: true,
+          preserveRecentMessages: 2,
+          truncationStrategy: 'selective',
+        },
+        60
+      );
+
+      // The result doesn't fit, so its whole turn goes
+      expect(prunedMessages).toEqual([messages[0], messages[4], messages[5]]);
+    });
   });
 
   describe('Integration with SessionManager', () => {
@@ -1,17 +1,16 @@
 import { ChatMessage, ContextSettings, MessageRelevance } from './types';
-import {
-  calculateMessageRelevance,
-  calculateSessionRelevanceScores,
-  getTopRelevantMessageIndices,
-} from './relevance-scorer';
+import { calculateMessageRelevance } from './relevance-scorer';
 
 /**
  * Prunes messages based on relevance scores to optimize token usage.
  * This implementation preserves:
  * 1. System messages (if specified in settings)
  * 2. Most recent N messages (if specified in settings)
- * 3. Messages with highest relevance scores
- * 4. Conversation coherence through Q&A pairs
+ * 3. The turns with highest relevance scores
+ *
+ * Messages are kept or dropped a turn at a time, a turn being a user
+ * message and everything that answers it, so a tool call is never kept
+ * without its result or the other way round.
  *
  * @param messages Array of messages to prune
  * @param settings Context settings that control pruning behavior
@@ -24,10 +23,7 @@ export function pruneMessagesByRelevance(
   targetTokens: number
 ): ChatMessage[] {
   // If no messages or target tokens is greater than current total, return all messages
-  const totalTokens = messages.reduce(
-    (sum: number, msg: ChatMessage) => sum + (msg.tokens || 0),
-    0
-  );
+  const totalTokens = sumTokens(messages);
   if (messages.length === 0 || totalTokens <= targetTokens) {
     return [...messages];
   }
@@ -37,50 +33,37 @@ export function pruneMessagesByRelevance(
     ? messages.filter(msg => msg.role === 'system')
     : [];
 
-  // Get non-system messages for relevance scoring
+  // Get non-system messages, grouped into turns
   const nonSystemMessages = messages.filter(msg => msg.role !== 'system');
+  const turns = groupIntoTurns(nonSystemMessages);
 
-  // Keep recent messages if specified
+  // Keep the turns holding the most recent messages
   const recentMessageCount = settings.preserveRecentMessages || 2;
-  const recentMessages: ChatMessage[] = nonSystemMessages.slice(
-    -recentMessageCount
-  );
+  let firstRecentTurn = turns.length;
+  let recentCount = 0;
+  while (firstRecentTurn > 0 && recentCount < recentMessageCount) {
+    firstRecentTurn--;
+    recentCount += turns[firstRecentTurn].length;
+  }
+  const recentMessages = turns.slice(firstRecentTurn).flat();
 
-  // Get candidate messages for relevance-based pruning
-  // (excluding both system messages and the latest messages we want to preserve)
-  let candidateMessages = nonSystemMessages.slice(0, -recentMessageCount);
+  // Candidate turns for relevance-based pruning
+  const candidateTurns = turns.slice(0, firstRecentTurn);
 
   // If no candidates left after preserving recent messages, return system + recent
-  if (candidateMessages.length === 0) {
+  if (candidateTurns.length === 0) {
     return [...systemMessages, ...recentMessages];
   }
 
-  // Calculate relevance scores for all candidate messages
-  const relevanceScores: MessageRelevance[] = candidateMessages.map(
-    (msg, index) => calculateMessageRelevance(msg, index)
-  );
-
-  // Maintain conversation coherence by ensuring Q&A pairs stay together
-  const preservedPairs = maintainConversationCoherence(
-    candidateMessages,
-    relevanceScores
-  );
-
-  // Calculate tokens from messages we're definitely keeping
-  const fixedTokens = [...systemMessages, ...recentMessages].reduce(
-    (sum: number, msg: ChatMessage) => sum + (msg.tokens || 0),
-    0
-  );
-
-  // Calculate remaining token budget
-  const remainingTokens = targetTokens - fixedTokens;
+  // Calculate remaining token budget from messages we're definitely keeping
+  const remainingTokens =
+    targetTokens - sumTokens([...systemMessages, ...recentMessages]);
 
-  // Select the most relevant messages to fill the remaining token budget
-  const selectedMessages = selectMessagesByTokenBudget(
-    candidateMessages,
-    relevanceScores,
-    remainingTokens,
-    preservedPairs
+  // Select the most relevant turns to fill the remaining token budget
+  const selectedMessages = selectTurnsByTokenBudget(
+    candidateTurns,
+    scoreTurns(candidateTurns),
+    remainingTokens
   );
 
   // Reconstruct the message list: system messages + selected by relevance + recent
@@ -90,121 +73,78 @@ export function pruneMessagesByRelevance(
   return sortMessagesByOriginalOrder(result, messages);
 }
 
+function sumTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum: number, msg: ChatMessage) => sum + (msg.tokens || 0),
+    0
+  );
+}
+
 /**
- * Identifies conversation pairs (Q&A) that should be preserved together
- * to maintain coherence in the conversation
+ * Splits messages into turns, each starting at a user message. Tool calls
+ * and their results are assistant messages, so they stay in the turn of
+ * the user message that led to them.
  *
- * @param messages Array of messages to analyze
- * @param relevanceScores Relevance scores for messages
- * @returns Set of message indices that should be preserved as pairs
+ * @param messages Non-system messages in conversation order
+ * @returns Turns in conversation order
  */
-function maintainConversationCoherence(
-  messages: ChatMessage[],
-  relevanceScores: MessageRelevance[]
-): Set<number> {
-  const preservedIndices = new Set<number>();
-  const highRelevanceThreshold = 0.6; // Messages above this threshold trigger pair preservation
-
-  // Find messages with high relevance scores (likely important questions or statements)
-  const highRelevanceIndices = relevanceScores
-    .filter(r => r.score > highRelevanceThreshold)
-    .map(r => r.messageIndex);
-
-  // For each high relevance message, if it's a user message, preserve the assistant's response
-  // If it's an assistant message with a question, preserve the user's response
-  for (const index of highRelevanceIndices) {
-    preservedIndices.add(index);
-
-    // If this is a user message, preserve the next message (assistant's response)
-    if (index < messages.length - 1 && messages[index].role === 'user') {
-      preservedIndices.add(index + 1);
-    }
-
-    // If this is an assistant message, preserve the next message (user's follow-up)
-    if (index < messages.length - 1 && messages[index].role === 'assistant') {
-      preservedIndices.add(index + 1);
-    }
-
-    // If this is a response to a previous message, preserve that message too
-    if (index > 0) {
-      preservedIndices.add(index - 1);
+function groupIntoTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
     }
   }
+  return turns;
+}
 
-  return preservedIndices;
+/**
+ * Scores each turn by its most relevant message
+ *
+ * @param turns Candidate turns
+ * @returns One relevance score per turn, indexed by turn
+ */
+function scoreTurns(turns: ChatMessage[][]): MessageRelevance[] {
+  let messageIndex = 0;
+  return turns.map((turn, turnIndex) => {
+    const scores = turn.map(msg =>
+      calculateMessageRelevance(msg, messageIndex++)
+    );
+    const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+    return { ...best, messageIndex: turnIndex };
+  });
 }
 
 /**
- * Selects messages based on relevance scores up to a token budget
+ * Selects whole turns based on relevance scores up to a token budget
  *
- * @param messages Candidate messages for selection
- * @param relevanceScores Relevance scores for messages
+ * @param turns Candidate turns for selection
+ * @param relevanceScores Relevance scores for turns
  * @param tokenBudget Maximum tokens to use
- * @param preservedPairs Set of message indices that should be preserved together
- * @returns Selected messages within token budget
+ * @returns Messages of the selected turns
  */
-function selectMessagesByTokenBudget(
-  messages: ChatMessage[],
+function selectTurnsByTokenBudget(
+  turns: ChatMessage[][],
   relevanceScores: MessageRelevance[],
-  tokenBudget: number,
-  preservedPairs: Set<number>
+  tokenBudget: number
 ): ChatMessage[] {
-  // First, include all messages that are part of preserved pairs
-  let selectedMessages: ChatMessage[] = [];
+  const selectedMessages: ChatMessage[] = [];
   let usedTokens = 0;
 
-  // Sort indices by relevance score (descending)
+  // Sort turn indices by relevance score (descending)
   const sortedIndices = [...relevanceScores]
     .sort((a, b) => b.score - a.score)
     .map(r => r.messageIndex);
 
-  // Process preserved pairs first - these have priority
-  const preservedMessages: ChatMessage[] = [];
-  for (const index of preservedPairs) {
-    if (index >= 0 && index < messages.length) {
-      preservedMessages.push(messages[index]);
-      usedTokens += messages[index].tokens || 0;
-    }
-  }
-
-  // If preserved pairs exceed budget, we need to do some trimming
-  if (usedTokens > tokenBudget) {
-    // Sort preserved messages by relevance
-    const preservedIndices = Array.from(preservedPairs);
-    const sortedPreserved = preservedIndices
-      .map(index => ({
-        message: messages[index],
-        score: relevanceScores.find(r => r.messageIndex === index)?.score || 0,
-      }))
-      .sort((a, b) => b.score - a.score);
-
-    // Keep adding until we hit the budget
-    usedTokens = 0;
-    preservedMessages.length = 0;
-    for (const item of sortedPreserved) {
-      const msgTokens = item.message.tokens || 0;
-      if (usedTokens + msgTokens <= tokenBudget) {
-        preservedMessages.push(item.message);
-        usedTokens += msgTokens;
-      }
-    }
-  }
-
-  // Add preserved messages to our selection
-  selectedMessages = [...preservedMessages];
-
-  // Fill remaining budget with the most relevant messages
   for (const index of sortedIndices) {
-    // Skip if already included in preserved pairs
-    if (preservedPairs.has(index)) continue;
-
-    const message = messages[index];
-    const msgTokens = message.tokens || 0;
+    const turnTokens = sumTokens(turns[index]);
 
-    // Check if adding this message would exceed our budget
-    if (usedTokens + msgTokens <= tokenBudget) {
-      selectedMessages.push(message);
-      usedTokens += msgTokens;
+    // Check if adding this turn would exceed our budget
+    if (usedTokens + turnTokens <= tokenBudget) {
+      selectedMessages.push(...turns[index]);
+      usedTokens += turnTokens;
     }
   }
 
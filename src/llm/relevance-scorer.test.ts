@@ -22,7 +22,8 @@ vi.mock('@anthropic-ai/sdk', () => {
 });
 
 // Mock server dependencies
-vi.mock('../server/discovery', () => ({
+vi.mock('../server/discovery', async importOriginal => ({
+  ...(await importOriginal<typeof import('../server/discovery')>()),
   ServerDiscovery: vi.fn().mockImplementation(() => ({
     discoverCapabilities: vi.fn().mockResolvedValue({
       client: { callTool: vi.fn() },
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { validateToolArguments } from './schema-validation';
+
+describe('validateToolArguments', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      path: { type: 'string', minLength: 1 },
+      mode: { type: 'string', enum: ['read', 'write'] },
+      options: {
+        type: 'object',
+        properties: {
+          depth: { type: 'integer', minimum: 0 },
+          follow: { type: 'boolean' },
+        },
+        required: ['depth'],
+        additionalProperties: false,
+      },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['path'],
+  };
+
+  it('should accept arguments that match the schema', () => {
+    expect(
+      validateToolArguments(schema, {
+        path: '/tmp',
+        mode: 'read',
+        options: { depth: 2, follow: true },
+        tags: ['a', 'b'],
+      })
+    ).toEqual([]);
+  });
+
+  it('should accept anything when no schema is declared', () => {
+    expect(validateToolArguments(undefined, { anything: 1 })).toEqual([]);
+  });
+
+  it('should report missing required properties, wrong types and enums', () => {
+    expect(
+      validateToolArguments(schema, { mode: 'delete', tags: ['a', 2] })
+    ).toEqual([
+      "arguments is missing required property 'path'",
+      '\'mode\' must be one of "read", "write"',
+      "'tags[1]' must be string",
+    ]);
+  });
+
+  it('should validate nested objects', () => {
+    expect(
+      validateToolArguments(schema, {
+        path: '/tmp',
+        options: { depth: 1.5, recursive: true },
+      })
+    ).toEqual([
+      "'options.depth' must be integer",
+      "'options.recursive' is not an allowed property",
+    ]);
+    expect(
+      validateToolArguments(schema, { path: '/tmp', options: {} })
+    ).toEqual(["'options' is missing required property 'depth'"]);
+  });
+
+  it('should report bounds violations', () => {
+    expect(
+      validateToolArguments(schema, { path: '', options: { depth: -1 } })
+    ).toEqual([
+      "'path' must be at least 1 characters",
+      "'options.depth' must be >= 0",
+    ]);
+  });
+
+  it('should accept a list of allowed types', () => {
+    const nullable = {
+      type: 'object',
+      properties: { limit: { type: ['integer', 'null'] } },
+    };
+    expect(validateToolArguments(nullable, { limit: null })).toEqual([]);
+    expect(validateToolArguments(nullable, { limit: 'ten' })).toEqual([
+      "'limit' must be integer or null",
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tool argument validation.
+ * Checks tool call arguments against the JSON Schema a server declared for
+ * the tool, so malformed calls can be returned to the model instead of
+ * being dispatched. Supports the keywords tool schemas use in practice:
+ * type, enum, const, required, properties, additionalProperties, items and
+ * the basic string, number and array bounds. Other keywords are ignored.
+ */
+
+type JSONSchema = Record<string, any>;
+
+/**
+ * Validate tool arguments against a tool's input schema
+ * @returns One message per problem found, empty when the arguments are valid
+ */
+export function validateToolArguments(
+  schema: JSONSchema | undefined,
+  args: unknown
+): string[] {
+  if (!schema) {
+    return [];
+  }
+  const errors: string[] = [];
+  validateValue(schema, args, '', errors);
+  return errors;
+}
+
+function validateValue(
+  schema: JSONSchema,
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+  const label = path ? `'${path}'` : 'arguments';
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      errors.push(`${label} must be ${types.join(' or ')}`);
+      return;
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option: unknown) => isEqual(option, value))
+  ) {
+    errors.push(
+      `${label} must be one of ${schema.enum
+        .map((option: unknown) => JSON.stringify(option))
+        .join(', ')}`
+    );
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    errors.push(`${label} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (
+      typeof schema.minLength === 'number' &&
+      value.length < schema.minLength
+    ) {
+      errors.push(`${label} must be at least ${schema.minLength} characters`);
+    }
+    if (
+      typeof schema.maxLength === 'number' &&
+      value.length > schema.maxLength
+    ) {
+      errors.push(`${label} must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${label} must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${label} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${label} must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${label} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) =>
+        validateValue(schema.items, item, `${path}[${index}]`, errors)
+      );
+    }
+  }
+
+  if (isPlainObject(value)) {
+    validateObject(schema, value, path, label, errors);
+  }
+}
+
+function validateObject(
+  schema: JSONSchema,
+  value: Record<string, unknown>,
+  path: string,
+  label: string,
+  errors: string[]
+): void {
+  const properties: Record<string, JSONSchema> = schema.properties || {};
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required) {
+      if (value[name] === undefined) {
+        errors.push(`${label} is missing required property '${name}'`);
+      }
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = path ? `${path}.${name}` : name;
+    if (properties[name]) {
+      validateValue(properties[name], propertyValue, propertyPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`'${propertyPath}' is not an allowed property`);
+    } else if (
+      schema.additionalProperties &&
+      typeof schema.additionalProperties === 'object'
+    ) {
+      validateValue(
+        schema.additionalProperties,
+        propertyValue,
+        propertyPath,
+        errors
+      );
+    }
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      // Unknown types can't be checked
+      return true;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
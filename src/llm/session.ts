@@ -1,5 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
-import { LLMConfig } from '../config/types';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { LLMConfig, ConfigurationError, ServerConfig } from '../config/types';
 import {
   ChatMessage,
   LLMError,
@@ -7,51 +9,344 @@ import {
   TokenCost,
   ContextSettings,
   TokenAlert,
+  ModelSwitchOptions,
+  FallbackAttempt,
+  ContentBlock,
+  ToolApprovalDecision,
+  ToolApprovalHandler,
+  ToolApprovalRequest,
+  SendMessageOptions,
+  LLMCancelledError,
+  ResourceContents,
+  ResourceSubscription,
+  SamplingPolicy,
+  SamplingRequest,
+  SessionEvent,
+  SessionEventListener,
+  ServerLogLevel,
+  ServerLogMessage,
+  ServerStatusChange,
+  ToolProgress,
 } from './types';
-import { Anthropic } from '@anthropic-ai/sdk';
-import type { Tool } from '@anthropic-ai/sdk/resources/messages/messages';
-import { MCPTool, MCPResource } from './types';
+import { MCPTool, MCPResource, MCPRoot } from './types';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { ServerLauncher } from '../server/launcher';
-import { ServerDiscovery } from '../server/discovery';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ErrorCode,
+  McpError,
+  PromptMessage,
+  SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerError, ServerLauncher } from '../server/launcher';
+import {
+  ServerConnection,
+  ServerHealth,
+  ServerPool,
+  ServerPoolMember,
+} from '../server/pool';
+import {
+  DiscoveryOptions,
+  ServerCapabilities,
+  ServerDiscovery,
+  ServerState,
+} from '../server/discovery';
 import { globalSessions } from './store';
 import {
   calculateMessageTokens,
   calculateTokenCost,
   getContextLimit,
-  supportsThinking,
-  getDefaultThinkingBudget,
   isContextWindowCritical,
   getContextRecommendation,
   calculateContextUsage,
-  countTokens,
 } from './token-counter';
 import { pruneMessagesByRelevance } from './relevance-pruning';
+import { LLMProvider, LLMRequest, LLMResponse } from './providers/types';
+import { createProvider } from './providers/registry';
+import { StreamAccumulator } from './stream-accumulator';
+import { validateToolArguments } from './schema-validation';
+import {
+  buildFallbackChain,
+  isRetryableLLMError,
+  toFallbackAttempt,
+} from './fallback';
 
 // Note: Both of these interfaces are now imported from types.ts
 // So we don't need to re-declare them here
 import { ToolCall, ChatSession } from './types';
 
+// Default completion budget for each LLM call
+const DEFAULT_MAX_TOKENS = 1024;
+
+// Separates server and tool name in namespaced tool names
+const TOOL_NAMESPACE_SEPARATOR = '__';
+
+// Decision for calls still awaiting approval when their turn is cancelled
+const CANCELLED_APPROVAL: ToolApprovalDecision = {
+  approved: false,
+  reason: 'Request cancelled',
+};
+
+/**
+ * Outcome of a single tool call, ready to be reported back to the model
+ */
+interface ToolCallOutcome {
+  toolCall: ToolCall;
+  text: string;
+  isError: boolean;
+}
+
+// Provider stop reasons in the form MCP sampling results use
+const SAMPLING_STOP_REASONS: Record<string, string> = {
+  end_turn: 'endTurn',
+  stop: 'endTurn',
+  max_tokens: 'maxTokens',
+  length: 'maxTokens',
+  stop_sequence: 'stopSequence',
+};
+
+/**
+ * Chunk yielded to callers of sendMessageStream
+ */
+type StreamChunk = {
+  type: string;
+  content?: string;
+  error?: string;
+  approval?: ToolApprovalRequest;
+  progress?: ToolProgress;
+  log?: ServerLogMessage;
+};
+
+/**
+ * Tool call waiting for a decision from resolveToolApproval
+ */
+interface PendingApproval {
+  request: ToolApprovalRequest;
+  resolve: (decision: ToolApprovalDecision) => void;
+}
+
 export class SessionManager {
-  private anthropic!: Anthropic;
   private serverLauncher: ServerLauncher;
   private serverDiscovery: ServerDiscovery;
-
-  private formatToolsForLLM(tools: MCPTool[]): Tool[] {
-    console.log('[SESSION] Formatting tools for LLM:', tools);
-    return tools.map((tool: MCPTool) => ({
-      name: tool.name,
-      input_schema: {
-        type: 'object',
-        properties: tool.inputSchema?.properties || {},
-      },
-      description: tool.description || '',
-    }));
-  }
+  private serverPool: ServerPool;
+  private providers: Map<string, LLMProvider> = new Map();
+  private approvalHandler?: ToolApprovalHandler;
+  private samplingPolicy?: SamplingPolicy;
+  private eventListeners: Set<SessionEventListener> = new Set();
+  // Capability refreshes in progress, keyed by session ID and server name
+  private capabilityRefreshes: Map<string, Promise<void>> = new Map();
+  // Tool calls held for approval, keyed by tool call ID
+  private pendingApprovals: Map<string, PendingApproval> = new Map();
+  // Abort controllers for turns in progress, keyed by session ID
+  private activeTurns: Map<string, AbortController> = new Map();
+  // Lazy servers starting, keyed by session ID and server name
+  private lazyStarts: Map<string, Promise<Client | undefined>> = new Map();
+  // Tool calls in flight, keyed by session ID and server name
+  private callsInFlight: Map<string, number> = new Map();
+  // Why a server's old client disconnected, so calls cut off by it can say
+  private disconnectErrors: WeakMap<Client, ServerError> = new WeakMap();
 
   constructor() {
     this.serverLauncher = new ServerLauncher();
     this.serverDiscovery = new ServerDiscovery();
+    this.serverPool = new ServerPool(this.serverLauncher, this.serverDiscovery);
+  }
+
+  /**
+   * Get the LLM provider backing a session, creating it from the
+   * session's config on first use
+   */
+  private getProvider(session: ChatSession): LLMProvider {
+    let provider = this.providers.get(session.id);
+    if (!provider) {
+      console.log(
+        `[SESSION] Creating ${session.config.type} provider for session ${session.id}`
+      );
+      provider = createProvider(session.config);
+      this.providers.set(session.id, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Build a provider-neutral request from the current session state
+   */
+  private buildRequest(
+    session: ChatSession,
+    model: string = session.config.model,
+    signal?: AbortSignal
+  ): LLMRequest {
+    return {
+      model,
+      systemPrompt: session.config.system_prompt,
+      messages: session.messages,
+      tools:
+        session.tools.length > 0
+          ? session.tools.map(tool => ({
+              ...tool,
+              name: this.exposedToolName(session, tool),
+            }))
+          : undefined,
+      maxTokens: DEFAULT_MAX_TOKENS,
+      thinking: session.config.thinking,
+      ...(signal ? { signal } : {}),
+    };
+  }
+
+  /**
+   * Send the conversation to the session's model, moving down the configured
+   * fallback chain on rate-limit, overload or server errors
+   */
+  private async sendWithFallback(
+    session: ChatSession,
+    signal?: AbortSignal
+  ): Promise<{
+    response: LLMResponse;
+    config: LLMConfig;
+    fallbacks: FallbackAttempt[];
+  }> {
+    const chain = buildFallbackChain(session.config);
+    const fallbacks: FallbackAttempt[] = [];
+
+    for (let i = 0; ; i++) {
+      const config = chain[i];
+      try {
+        const provider =
+          i === 0 ? this.getProvider(session) : createProvider(config);
+        const response = await provider.sendMessage(
+          this.buildRequest(session, config.model, signal)
+        );
+        return { response, config, fallbacks };
+      } catch (error) {
+        if (
+          signal?.aborted ||
+          i === chain.length - 1 ||
+          !isRetryableLLMError(error)
+        ) {
+          throw error;
+        }
+        fallbacks.push(toFallbackAttempt(config, error));
+        console.warn(
+          `[SESSION] ${config.type}/${config.model} failed, falling back to ${
+            chain[i + 1].type
+          }/${chain[i + 1].model}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Fields recording which model produced an assistant message
+   */
+  private answeredBy(
+    config: LLMConfig,
+    fallbacks: FallbackAttempt[]
+  ): Pick<ChatMessage, 'provider' | 'model' | 'fallbacks'> {
+    return {
+      provider: config.type,
+      model: config.model,
+      ...(fallbacks.length > 0 ? { fallbacks } : {}),
+    };
+  }
+
+  /**
+   * Parse the legacy `<tool>name {json}</tool>` tag format from text content
+   */
+  private parseLegacyToolCall(content: string): {
+    found: boolean;
+    toolCall?: ToolCall;
+  } {
+    const toolMatch = content.match(/<tool>(.*?)<\/tool>/s);
+    if (!toolMatch || !toolMatch[1]) {
+      return { found: false };
+    }
+
+    const toolContent = toolMatch[1].trim();
+    const spaceIndex = toolContent.indexOf(' ');
+    if (spaceIndex === -1) {
+      return { found: true };
+    }
+
+    try {
+      return {
+        found: true,
+        toolCall: {
+          name: toolContent.slice(0, spaceIndex),
+          parameters: JSON.parse(toolContent.slice(spaceIndex + 1)),
+        },
+      };
+    } catch (error) {
+      console.error('[SESSION] Failed to parse tool parameters:', error);
+      throw new LLMError('Invalid tool parameters format');
+    }
+  }
+
+  /**
+   * Render an MCP tool result as text, honouring the MCP `isError` flag
+   */
+  private formatToolResult(result: unknown): {
+    text: string;
+    isError: boolean;
+  } {
+    const { content, isError } = (result || {}) as {
+      content?: unknown;
+      isError?: boolean;
+    };
+    if (!Array.isArray(content)) {
+      return { text: JSON.stringify(result), isError: false };
+    }
+
+    const text = content
+      .map(item =>
+        item?.type === 'text' && typeof item.text === 'string'
+          ? item.text
+          : JSON.stringify(item)
+      )
+      .join('\n');
+    return { text, isError: isError === true };
+  }
+
+  /**
+   * An MCP-style failed tool result for calls that were not dispatched
+   */
+  private toolErrorResult(text: string): {
+    content: { type: 'text'; text: string }[];
+    isError: true;
+  } {
+    return { content: [{ type: 'text', text }], isError: true };
+  }
+
+  /**
+   * Build the history entry carrying the outputs of one turn's tool calls.
+   * Structured calls get tool_result blocks tied to their tool_use IDs;
+   * legacy tag calls have no ID, so only the text is kept.
+   */
+  private createToolResultMessage(
+    session: ChatSession,
+    outcomes: ToolCallOutcome[]
+  ): ChatMessage {
+    const blocks: ContentBlock[] = outcomes
+      .filter(outcome => outcome.toolCall.id)
+      .map(outcome => ({
+        type: 'tool_result',
+        toolUseId: outcome.toolCall.id!,
+        content: outcome.text,
+        ...(outcome.isError ? { isError: true } : {}),
+      }));
+
+    const content = outcomes.map(outcome => outcome.text).join('\n');
+    return {
+      role: 'assistant',
+      content,
+      isToolResult: true,
+      ...(blocks.length > 0 ? { blocks } : {}),
+      tokens: this.getProvider(session).countTokens(
+        content,
+        session.config.model
+      ),
+    };
   }
 
   async initializeSession(config: LLMConfig): Promise<ChatSession> {
@@ -76,6 +371,8 @@ export class SessionManager {
         maxToolCalls: config.max_tool_calls || 2, // Use configured limit or default to 2
         tools: [],
         resources: [],
+        prompts: [],
+        roots: (config.roots || []).map(root => this.toRoot(root)),
         // Initialize token metrics with enhanced tracking
         tokenMetrics: {
           userTokens: 0,
@@ -106,18 +403,15 @@ export class SessionManager {
         isContextWindowCritical: false,
       };
 
-      // Initialize Anthropic client
-      console.log('[SESSION] Initializing Anthropic client');
-      this.anthropic = new Anthropic({
-        apiKey: config.api_key,
-      });
+      // Create the LLM provider for the configured type
+      const provider = createProvider(config);
 
       // Store the system prompt in the session with token count
       const systemMessage = {
         role: 'system' as const,
         content: config.system_prompt,
         timestamp: new Date(),
-        tokens: countTokens(config.system_prompt, config.model),
+        tokens: provider.countTokens(config.system_prompt, config.model),
       };
       session.messages.push(systemMessage);
 
@@ -137,53 +431,54 @@ export class SessionManager {
             Object.keys(config.servers)
           )}`
         );
-        for (const [serverName, serverConfig] of Object.entries(
-          config.servers
-        )) {
-          try {
-            await this.serverLauncher.launchServer(serverName, serverConfig);
-            console.log(`[SESSION] Server ${serverName} launched successfully`);
-
-            // Get the server process
-            const serverProcess =
-              this.serverLauncher.getServerProcess(serverName);
-            if (!serverProcess) {
-              throw new Error(`Server process not found for ${serverName}`);
-            }
+        const eagerServers = Object.entries(config.servers).filter(
+          ([serverName, serverConfig]) =>
+            !this.offerLazyServer(session, serverName, serverConfig)
+        );
 
-            // Discover server capabilities
-            const result = await this.serverDiscovery.discoverCapabilities(
+        // Eager servers start together, so one slow server doesn't hold up
+        // the rest. Each launches, or shares one another session started.
+        const results = await Promise.allSettled(
+          eagerServers.map(([serverName, serverConfig]) =>
+            this.serverPool.acquire(
+              sessionId,
               serverName,
-              serverProcess
-            );
-
-            // Store client and capabilities
-            session.serverClients.set(serverName, result.client);
-            session.tools.push(...result.capabilities.tools);
-            session.resources.push(...result.capabilities.resources);
+              serverConfig,
+              this.serverPoolMember(session, serverName)
+            )
+          )
+        );
 
-            console.log(
-              `[SESSION] Added ${result.capabilities.tools.length} tools and ${result.capabilities.resources.length} resources from ${serverName}`
-            );
-            console.log(
-              `[SESSION] Registered tools from ${serverName}: ${JSON.stringify(
-                result.capabilities.tools.map(t => t.name)
-              )}`
-            );
-            console.log(
-              `[SESSION] Active server clients: ${session.serverClients.size}`
-            );
-          } catch (error) {
-            console.error(
-              `[SESSION] Failed to initialize server ${serverName}:`,
-              error
+        let failure: { reason: unknown } | undefined;
+        results.forEach((result, index) => {
+          const [serverName, serverConfig] = eagerServers[index];
+          if (result.status === 'fulfilled') {
+            this.attachServer(session, serverName, result.value);
+            return;
+          }
+          console.error(
+            `[SESSION] Failed to initialize server ${serverName}:`,
+            result.reason
+          );
+          if (serverConfig.optional) {
+            console.warn(
+              `[SESSION] Continuing without optional server ${serverName}`
             );
-            // Don't store the session if server initialization fails
-            throw error;
+          } else {
+            failure ??= { reason: result.reason };
           }
+        });
+
+        if (failure) {
+          // Don't store the session if server initialization fails
+          await this.releaseServers(session);
+          throw failure.reason;
         }
       }
 
+      this.warnOnToolNameCollisions(session);
+
+      this.providers.set(sessionId, provider);
       globalSessions.set(sessionId, session);
       console.log(`[SESSION] Initialized new chat session: ${sessionId}`);
       return session;
@@ -200,6 +495,119 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Store a server's client and capabilities once it has started
+   */
+  private attachServer(
+    session: ChatSession,
+    serverName: string,
+    connection: ServerConnection
+  ): void {
+    session.serverClients.set(serverName, connection.client);
+    this.setServerCapabilities(session, serverName, connection.capabilities);
+
+    console.log(
+      `[SESSION] Added ${connection.capabilities.tools.length} tools and ${connection.capabilities.resources.length} resources from ${serverName}`
+    );
+    console.log(
+      `[SESSION] Registered tools from ${serverName}: ${JSON.stringify(
+        connection.capabilities.tools.map(t => t.name)
+      )}`
+    );
+    console.log(
+      `[SESSION] Active server clients: ${session.serverClients.size}`
+    );
+  }
+
+  /**
+   * Offer a lazy server's tools without starting it, using what it reported
+   * when it last started or the tools declared in its config
+   * @returns false when the server has to start with the session, because
+   * it is eager or its tools aren't known
+   */
+  private offerLazyServer(
+    session: ChatSession,
+    serverName: string,
+    serverConfig: ServerConfig
+  ): boolean {
+    if (serverConfig.launch !== 'lazy') {
+      return false;
+    }
+
+    const capabilities =
+      this.serverPool.getDiscoveredCapabilities(serverConfig) ??
+      (serverConfig.tools && {
+        tools: serverConfig.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.input_schema as MCPTool['inputSchema'],
+        })),
+        resources: [],
+      });
+    if (!capabilities) {
+      console.warn(
+        `[SESSION] No tools known for lazy server ${serverName}, starting it with the session`
+      );
+      return false;
+    }
+
+    this.setServerCapabilities(session, serverName, capabilities);
+    console.log(
+      `[SESSION] Offering ${capabilities.tools.length} tools from lazy server ${serverName} until it starts`
+    );
+    return true;
+  }
+
+  /**
+   * Start a lazy server on the first call to one of its tools. Calls made
+   * while it starts wait for the same start.
+   * @returns The server's client, or undefined if it isn't a lazy server
+   * waiting to start
+   */
+  private startLazyServer(
+    session: ChatSession,
+    serverName: string
+  ): Promise<Client | undefined> {
+    const key = `${session.id}:${serverName}`;
+    const pending = this.lazyStarts.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const serverConfig = session.config.servers?.[serverName];
+    if (
+      serverConfig?.launch !== 'lazy' ||
+      this.serverPool.getHealth(session.id, serverName)
+    ) {
+      return Promise.resolve(undefined);
+    }
+
+    console.log(
+      `[SESSION] Starting lazy server ${serverName} for session ${session.id}`
+    );
+    const start = this.serverPool
+      .acquire(
+        session.id,
+        serverName,
+        serverConfig,
+        this.serverPoolMember(session, serverName)
+      )
+      .then(async connection => {
+        // The session may have closed while the server started
+        if (!this.isOpen(session)) {
+          await this.serverPool.release(session.id, serverName);
+          return undefined;
+        }
+        this.attachServer(session, serverName, connection);
+        // The discovered tools replace those offered before the start
+        this.emitCapabilitiesChanged(session, serverName);
+        return connection.client;
+      })
+      .finally(() => this.lazyStarts.delete(key));
+    this.lazyStarts.set(key, start);
+    return start;
+  }
+
   /**
    * Maps from camelCase tool names to snake_case tool names to handle
    * different SDK versions that might be in use by various servers
@@ -224,115 +632,546 @@ export class SessionManager {
     return [toolName, snakeCase];
   }
 
+  /**
+   * Name a tool is exposed to the model under. With `namespace_tools`
+   * enabled this is `server__tool`, so servers exposing the same tool name
+   * can be told apart.
+   */
+  private exposedToolName(session: ChatSession, tool: MCPTool): string {
+    if (!session.config.namespace_tools || !tool.server) {
+      return tool.name;
+    }
+    // Provider tool names only allow letters, digits, '_' and '-'
+    const prefix = tool.server.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `${prefix}${TOOL_NAMESPACE_SEPARATOR}${tool.name}`;
+  }
+
+  /**
+   * Resolve a tool name requested by the model to the tool it refers to.
+   * Namespaced names identify the owning server directly; plain names are
+   * matched against the registered tools, trying known naming variants.
+   */
+  private resolveTool(
+    session: ChatSession,
+    toolName: string
+  ): MCPTool | undefined {
+    if (session.config.namespace_tools) {
+      const namespaced = session.tools.find(
+        tool => tool.server && this.exposedToolName(session, tool) === toolName
+      );
+      if (namespaced) {
+        return namespaced;
+      }
+    }
+
+    for (const name of this.mapToolName(toolName)) {
+      const tool = session.tools.find(t => t.name === name);
+      if (tool) {
+        return tool;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Warn when several servers expose a tool under the same name. Without
+   * namespacing the model cannot address them separately, so calls go to
+   * the server that registered the name first.
+   */
+  private warnOnToolNameCollisions(session: ChatSession): void {
+    if (session.config.namespace_tools) {
+      return;
+    }
+
+    const owners = new Map<string, string[]>();
+    for (const tool of session.tools) {
+      owners.set(tool.name, [
+        ...(owners.get(tool.name) || []),
+        tool.server || 'unknown',
+      ]);
+    }
+    for (const [toolName, servers] of owners.entries()) {
+      if (servers.length > 1) {
+        console.warn(
+          `[SESSION] Tool ${toolName} is exposed by multiple servers (${servers.join(
+            ', '
+          )}); calls will go to ${
+            servers[0]
+          }. Enable namespace_tools to address each one.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Timeout for a tool call: the tool's entry in the server's
+   * `tool_timeouts`, else the server's `tool_timeout_ms`. Undefined leaves
+   * the MCP SDK default in place.
+   */
+  private getToolTimeout(
+    session: ChatSession,
+    tool: MCPTool
+  ): number | undefined {
+    const serverConfig = tool.server
+      ? session.config.servers?.[tool.server]
+      : undefined;
+    return (
+      serverConfig?.tool_timeouts?.[tool.name] ?? serverConfig?.tool_timeout_ms
+    );
+  }
+
   private async executeTool(
     session: ChatSession,
     toolName: string,
-    parameters: Record<string, unknown>
+    parameters: Record<string, unknown>,
+    signal?: AbortSignal,
+    callId?: string
   ): Promise<unknown> {
     console.log(`[SESSION] Starting tool execution for: ${toolName}`);
     console.log(`[SESSION] Tool parameters: ${JSON.stringify(parameters)}`);
-    console.log(
-      `[SESSION] Server clients available: ${session.serverClients.size}`
-    );
 
-    // Get potential tool names to try
-    const potentialToolNames = this.mapToolName(toolName);
-    console.log(
-      `[SESSION] Potential tool names for ${toolName}:`,
-      potentialToolNames
-    );
+    const tool = this.resolveTool(session, toolName);
+    if (!tool) {
+      throw new Error(
+        `No server found that can handle tool ${toolName} (tried: ${this.mapToolName(
+          toolName
+        ).join(', ')})`
+      );
+    }
 
-    // Find the client that can handle this tool
+    // Aborting the signal sends notifications/cancelled to the server.
+    // Passing onprogress sends a progress token; a call that keeps reporting
+    // progress isn't timed out.
+    const requestOptions = (serverName: string): RequestOptions => ({
+      signal,
+      timeout: this.getToolTimeout(session, tool),
+      resetTimeoutOnProgress: true,
+      onprogress: progress =>
+        this.emitSessionEvent({
+          type: 'tool_progress',
+          sessionId: session.id,
+          ...(callId ? { callId } : {}),
+          toolName: tool.name,
+          server: serverName,
+          progress: progress.progress,
+          ...(progress.total !== undefined ? { total: progress.total } : {}),
+          ...(progress.message ? { message: progress.message } : {}),
+        }),
+    });
+
+    // Route straight to the server that exposed the tool, starting it if
+    // it is lazy
+    if (tool.server) {
+      const client =
+        session.serverClients.get(tool.server) ??
+        (await this.startLazyServer(session, tool.server));
+      if (!client) {
+        throw new Error(
+          `Server ${tool.server} for tool ${toolName} is not connected`
+        );
+      }
+      console.log(
+        `[SESSION] Executing tool ${tool.name} (requested as ${toolName}) with server ${tool.server}`
+      );
+      return await this.callServerTool(
+        session,
+        tool.server,
+        client,
+        tool.name,
+        parameters,
+        requestOptions(tool.server)
+      );
+    }
+
+    // Tools registered without an owning server: try each connected server
     for (const [serverName, client] of session.serverClients.entries()) {
+      console.log(
+        `[SESSION] Executing tool ${tool.name} (requested as ${toolName}) with server ${serverName}`
+      );
       try {
-        // Log available tools for debugging
-        console.log(
-          `[SESSION] Server ${serverName} has tools:`,
-          session.tools.map(t => t.name)
+        return await this.callServerTool(
+          session,
+          serverName,
+          client,
+          tool.name,
+          parameters,
+          requestOptions(serverName)
         );
-
-        // Try each potential tool name
-        for (const mappedToolName of potentialToolNames) {
-          // Check if this server has the tool with this name
-          const tool = session.tools.find(t => t.name === mappedToolName);
-          if (tool) {
-            console.log(
-              `[SESSION] Executing tool ${mappedToolName} (mapped from ${toolName}) with server ${serverName}`
-            );
-            // Call the tool using the client
-            try {
-              const result = await client.callTool({
-                name: mappedToolName,
-                parameters,
-              });
-              return result;
-            } catch (error) {
-              console.error(
-                `[SESSION] Error executing tool ${mappedToolName}:`,
-                error
-              );
-              // Continue to try other tool names or servers
-            }
-          }
-        }
       } catch (error) {
-        console.error(
-          `[SESSION] Error checking tools in ${serverName}:`,
-          error
-        );
+        if (signal?.aborted) {
+          throw error;
+        }
+        console.error(`[SESSION] Error executing tool ${tool.name}:`, error);
+        // Continue to try other servers
       }
     }
     throw new Error(
-      `No server found that can handle tool ${toolName} (tried: ${potentialToolNames.join(
-        ', '
-      )})`
+      `No server found that can handle tool ${toolName} (tried: ${Array.from(
+        session.serverClients.keys()
+      ).join(', ')})`
     );
   }
 
-  private async processToolCall(
+  /**
+   * Call a tool on a server. A call cut off because the server exited fails
+   * with the ServerExitError, so the model sees why.
+   */
+  private async callServerTool(
+    session: ChatSession,
+    serverName: string,
+    client: Client,
+    toolName: string,
+    parameters: Record<string, unknown>,
+    options: RequestOptions
+  ): Promise<unknown> {
+    const key = `${session.id}:${serverName}`;
+    this.callsInFlight.set(key, (this.callsInFlight.get(key) ?? 0) + 1);
+    try {
+      return await client.callTool(
+        { name: toolName, arguments: parameters },
+        undefined,
+        options
+      );
+    } catch (error) {
+      throw this.disconnectErrors.get(client) ?? error;
+    } finally {
+      const remaining = this.callsInFlight.get(key)! - 1;
+      if (remaining > 0) {
+        this.callsInFlight.set(key, remaining);
+      } else {
+        this.callsInFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Register a callback that decides on tool calls needing approval. Without
+   * a handler, those calls wait for resolveToolApproval.
+   */
+  setToolApprovalHandler(handler?: ToolApprovalHandler): void {
+    this.approvalHandler = handler;
+  }
+
+  /**
+   * Tool calls in a session that are waiting for a decision
+   */
+  getPendingToolApprovals(sessionId: string): ToolApprovalRequest[] {
+    return Array.from(this.pendingApprovals.values())
+      .map(pending => pending.request)
+      .filter(request => request.sessionId === sessionId);
+  }
+
+  /**
+   * Approve, deny or edit a tool call that is waiting for approval
+   * @returns false if the session has no pending call with this ID
+   */
+  resolveToolApproval(
     sessionId: string,
-    message: ChatMessage
-  ): Promise<ChatMessage> {
-    console.log(`[SESSION] Processing tool call for session ${sessionId}`);
-    const session = this.getSession(sessionId);
+    callId: string,
+    decision: ToolApprovalDecision
+  ): boolean {
+    const pending = this.pendingApprovals.get(callId);
+    if (!pending || pending.request.sessionId !== sessionId) {
+      return false;
+    }
     console.log(
-      `[SESSION] Tool call count: ${session.toolCallCount}/${session.maxToolCalls}`
+      `[SESSION] Tool call ${callId} ${
+        decision.approved ? 'approved' : 'denied'
+      } for session ${sessionId}`
     );
+    this.pendingApprovals.delete(callId);
+    pending.resolve(decision);
+    return true;
+  }
 
-    // Don't add a new user message, just process the tool call
-    if (!message.toolCall) {
-      throw new LLMError('No tool call found in message');
-    }
+  /**
+   * Whether the owning server's `requires_approval` setting covers a call
+   */
+  private requiresApproval(session: ChatSession, toolCall: ToolCall): boolean {
+    const tool = this.resolveTool(session, toolCall.name);
+    const setting = tool?.server
+      ? session.config.servers?.[tool.server]?.requires_approval
+      : undefined;
+    return Array.isArray(setting)
+      ? setting.includes(tool!.name)
+      : setting === true;
+  }
 
-    try {
-      const result = await this.executeTool(
-        session,
-        message.toolCall.name,
-        message.toolCall.parameters
-      );
+  /**
+   * Ask for approval of every tool call in a turn that needs it. Calls are
+   * passed to the approval handler, or else held until resolveToolApproval
+   * is called for them.
+   * @returns The requests held for the host, and the decisions once made
+   */
+  private requestToolApprovals(
+    session: ChatSession,
+    toolCalls: ToolCall[],
+    signal?: AbortSignal
+  ): {
+    pending: ToolApprovalRequest[];
+    decisions: Promise<Map<ToolCall, ToolApprovalDecision>>;
+  } {
+    const pending: ToolApprovalRequest[] = [];
+    const waits = toolCalls
+      .filter(toolCall => this.requiresApproval(session, toolCall))
+      .map(async toolCall => {
+        const request: ToolApprovalRequest = {
+          sessionId: session.id,
+          callId: toolCall.id || uuidv4(),
+          toolName: toolCall.name,
+          server: this.resolveTool(session, toolCall.name)?.server,
+          arguments: toolCall.parameters,
+        };
+        console.log(
+          `[SESSION] Tool call ${request.callId} (${toolCall.name}) requires approval`
+        );
 
-      // Add tool result to message history
-      const toolResultMessage: ChatMessage = {
-        role: 'assistant',
-        content: JSON.stringify(result),
-        isToolResult: true,
-      };
-      session.messages.push(toolResultMessage);
+        let decision: ToolApprovalDecision;
+        if (signal?.aborted) {
+          decision = CANCELLED_APPROVAL;
+        } else if (this.approvalHandler) {
+          decision = await this.untilCancelled(
+            Promise.resolve(this.approvalHandler(request)),
+            signal
+          );
+        } else {
+          pending.push(request);
+          // Also announced as a session event, for callers not streaming
+          this.emitSessionEvent({ type: 'approval_required', ...request });
+          decision = await this.untilCancelled(
+            new Promise<ToolApprovalDecision>(resolve =>
+              this.pendingApprovals.set(request.callId, { request, resolve })
+            ),
+            signal
+          );
+          this.pendingApprovals.delete(request.callId);
+        }
 
-      // Send follow-up message to include tool results
-      const followUpResponse = await this.anthropic.messages.create({
-        model: session.config.model,
-        max_tokens: 1024,
-        messages: session.messages.map(msg => ({
-          role: msg.role === 'system' ? 'user' : msg.role,
-          content: msg.content,
-        })),
+        if (decision.approved && decision.arguments) {
+          this.replaceToolArguments(session, toolCall, decision.arguments);
+        }
+        return [toolCall, decision] as const;
       });
 
-      const followUpContent =
-        followUpResponse.content[0]?.type === 'text'
-          ? followUpResponse.content[0].text
-          : null;
+    return {
+      pending,
+      decisions: Promise.all(waits).then(entries => new Map(entries)),
+    };
+  }
+
+  /**
+   * Wait for an approval decision, or deny the call if the turn is
+   * cancelled first. Stops listening for cancellation once either happens.
+   */
+  private async untilCancelled(
+    decision: Promise<ToolApprovalDecision>,
+    signal?: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    if (!signal) {
+      return decision;
+    }
+    const settled = new AbortController();
+    const cancelled = new Promise<ToolApprovalDecision>(resolve =>
+      signal.addEventListener('abort', () => resolve(CANCELLED_APPROVAL), {
+        once: true,
+        signal: settled.signal,
+      })
+    );
+    try {
+      return await Promise.race([decision, cancelled]);
+    } finally {
+      settled.abort();
+    }
+  }
+
+  /**
+   * Apply arguments edited during approval, so the history shows the call
+   * that actually ran
+   */
+  private replaceToolArguments(
+    session: ChatSession,
+    toolCall: ToolCall,
+    args: Record<string, unknown>
+  ): void {
+    toolCall.parameters = args;
+    if (!toolCall.id) {
+      return;
+    }
+    for (const message of session.messages) {
+      for (const block of message.blocks || []) {
+        if (block.type === 'tool_use' && block.id === toolCall.id) {
+          block.input = args;
+        }
+      }
+    }
+  }
+
+  /**
+   * Execute all tool calls from a single assistant turn. Calls to different
+   * servers run concurrently; calls to the same server also run concurrently
+   * unless the server sets `serialize_tool_calls`. Calls that fail are
+   * reported to the model as failed tool results, so every tool_use in the
+   * history gets an answer.
+   * @returns One outcome per tool call, in the original order
+   */
+  private async executeToolCalls(
+    session: ChatSession,
+    toolCalls: ToolCall[],
+    decisions: Map<ToolCall, ToolApprovalDecision> = new Map(),
+    signal?: AbortSignal
+  ): Promise<ToolCallOutcome[]> {
+    const results: unknown[] = new Array(toolCalls.length);
+
+    // Group call indexes by owning server
+    const callsByServer = new Map<string, number[]>();
+    toolCalls.forEach((toolCall, index) => {
+      const serverName = this.resolveTool(session, toolCall.name)?.server || '';
+      callsByServer.set(serverName, [
+        ...(callsByServer.get(serverName) || []),
+        index,
+      ]);
+    });
+
+    console.log(
+      `[SESSION] Executing ${toolCalls.length} tool call(s) across ${callsByServer.size} server(s)`
+    );
+
+    const run = async (index: number) => {
+      const toolCall = toolCalls[index];
+      const decision = decisions.get(toolCall);
+      if (decision && !decision.approved) {
+        // Denied calls are reported to the model as failed tool results
+        results[index] = this.toolErrorResult(
+          `Tool call denied${decision.reason ? `: ${decision.reason}` : ''}`
+        );
+        return;
+      }
+
+      // Invalid arguments go back to the model so it can correct the call
+      if (toolCall.invalidArguments) {
+        results[index] = this.toolErrorResult(
+          `Invalid arguments for tool ${toolCall.name}: ${toolCall.invalidArguments}`
+        );
+        return;
+      }
+      const validationErrors = validateToolArguments(
+        this.resolveTool(session, toolCall.name)?.inputSchema,
+        toolCall.parameters
+      );
+      if (validationErrors.length > 0) {
+        console.warn(
+          `[SESSION] Rejected tool call ${toolCall.name} with invalid arguments:`,
+          validationErrors
+        );
+        results[index] = this.toolErrorResult(
+          `Invalid arguments for tool ${
+            toolCall.name
+          }: ${validationErrors.join('; ')}`
+        );
+        return;
+      }
+
+      // Calls stopped by cancellation still get a result, keeping the
+      // history valid to replay
+      const cancelled = this.toolErrorResult('Tool call cancelled');
+      if (signal?.aborted) {
+        results[index] = cancelled;
+        return;
+      }
+
+      try {
+        results[index] = await this.executeTool(
+          session,
+          toolCall.name,
+          toolCall.parameters,
+          signal,
+          toolCall.id
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          results[index] = cancelled;
+          return;
+        }
+        console.error(`[SESSION] Tool call ${toolCall.name} failed:`, error);
+        results[index] = this.toolErrorResult(
+          `Failed to execute tool ${toolCall.name}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    };
+
+    await Promise.all(
+      Array.from(callsByServer.entries()).map(async ([serverName, indexes]) => {
+        if (session.config.servers?.[serverName]?.serialize_tool_calls) {
+          for (const index of indexes) {
+            await run(index);
+          }
+        } else {
+          await Promise.all(indexes.map(run));
+        }
+      })
+    );
+
+    return results.map((result, index) => ({
+      toolCall: toolCalls[index],
+      ...this.formatToolResult(result),
+    }));
+  }
+
+  private async processToolCall(
+    sessionId: string,
+    message: ChatMessage,
+    signal?: AbortSignal
+  ): Promise<ChatMessage> {
+    console.log(`[SESSION] Processing tool call for session ${sessionId}`);
+    const session = this.getSession(sessionId);
+    console.log(
+      `[SESSION] Tool call count: ${session.toolCallCount}/${session.maxToolCalls}`
+    );
+
+    // Don't add a new user message, just process the tool call
+    if (!message.toolCall) {
+      throw new LLMError('No tool call found in message');
+    }
+
+    const toolCalls = message.toolCalls?.length
+      ? message.toolCalls
+      : [message.toolCall];
+
+    try {
+      // Run every tool call from this turn and report the results together
+      const { decisions } = this.requestToolApprovals(
+        session,
+        toolCalls,
+        signal
+      );
+      const outcomes = await this.executeToolCalls(
+        session,
+        toolCalls,
+        await decisions,
+        signal
+      );
+
+      // Add tool results to message history
+      session.messages.push(this.createToolResultMessage(session, outcomes));
+      if (signal?.aborted) {
+        throw new LLMCancelledError();
+      }
+
+      // Send follow-up message to include tool results
+      const {
+        response: followUpResponse,
+        config: answeringConfig,
+        fallbacks,
+      } = await this.sendWithFallback(session, signal);
+
+      // Fall back to a placeholder when the response only contains tool calls
+      const followUpContent =
+        followUpResponse.text ||
+        (followUpResponse.toolCalls.length > 0
+          ? this.describeToolCalls(followUpResponse.toolCalls)
+          : '');
 
       if (!followUpContent) {
         throw new LLMError('Empty response from LLM after tool execution');
@@ -355,68 +1194,47 @@ export class SessionManager {
       const followUpMessage: ChatMessage = {
         role: 'assistant',
         content: followUpContent,
+        blocks: followUpResponse.blocks,
         hasToolCall: false,
+        ...this.answeredBy(answeringConfig, fallbacks),
       };
 
-      // Check if the follow-up response contains another tool call
+      // Check if the follow-up response contains more tool calls
       // First, look for structured tool calls
-      let hasNextToolCall = false;
-      let nextToolCall = undefined;
-
-      if (followUpResponse.content) {
-        // Look for structured tool calls
-        const toolCalls = followUpResponse.content.filter(
-          item => item.type === 'tool_use'
+      let nextToolCalls = followUpResponse.toolCalls;
+      let nextToolCall: ToolCall | undefined = nextToolCalls[0];
+      if (nextToolCall) {
+        console.log(
+          '[SESSION] Found another structured tool call in follow-up response'
         );
-
-        if (toolCalls && toolCalls.length > 0) {
-          console.log(
-            '[SESSION] Found another structured tool call in follow-up response'
-          );
-          const toolUse = toolCalls[0];
-
-          if (toolUse.id && toolUse.name && toolUse.input) {
-            hasNextToolCall = true;
-            nextToolCall = {
-              name: toolUse.name,
-              parameters: toolUse.input,
-            };
-          }
-        }
-      }
-
-      // Fall back to legacy format if no structured tool call found
-      if (!hasNextToolCall) {
-        const nextToolMatch = followUpContent.match(/<tool>(.*?)<\/tool>/s);
-        if (nextToolMatch && nextToolMatch[1]) {
+      } else {
+        // Fall back to legacy format if no structured tool call found
+        nextToolCall = this.parseLegacyToolCall(followUpContent).toolCall;
+        nextToolCalls = nextToolCall ? [nextToolCall] : [];
+        if (nextToolCall) {
           console.log(
             '[SESSION] Found another legacy tool call in follow-up response'
           );
-          hasNextToolCall = true;
-          const toolContent = nextToolMatch[1].trim();
-          const spaceIndex = toolContent.indexOf(' ');
-          if (spaceIndex > -1) {
-            nextToolCall = {
-              name: toolContent.slice(0, spaceIndex),
-              parameters: JSON.parse(toolContent.slice(spaceIndex + 1)),
-            };
-          }
         }
       }
 
       // Process next tool call if found
-      if (hasNextToolCall && nextToolCall) {
+      if (nextToolCall) {
         followUpMessage.hasToolCall = true;
         followUpMessage.toolCall = nextToolCall;
+        followUpMessage.toolCalls = nextToolCalls;
         session.messages.push(followUpMessage);
         session.toolCallCount++; // Increment counter before processing next tool
         console.log('[SESSION] Processing next tool call:', nextToolCall);
-        return await this.processToolCall(sessionId, followUpMessage);
+        return await this.processToolCall(sessionId, followUpMessage, signal);
       }
 
       session.messages.push(followUpMessage);
       return followUpMessage;
     } catch (error) {
+      if (error instanceof LLMCancelledError) {
+        throw error;
+      }
       throw new LLMError(
         `Failed to execute tool ${message.toolCall.name}: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -425,6 +1243,76 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Whether any of a turn's tool calls names one of the session's tools.
+   * Lazy servers' tools count before the server has started.
+   */
+  private hasKnownTool(session: ChatSession, toolCalls: ToolCall[]): boolean {
+    return toolCalls.some(toolCall => this.resolveTool(session, toolCall.name));
+  }
+
+  /**
+   * Answer a turn's tool calls when none of them names a known tool, so
+   * the tool_use blocks left in history aren't replayed unanswered
+   */
+  private answerUnknownToolCalls(
+    session: ChatSession,
+    toolCalls: ToolCall[]
+  ): void {
+    const pending = toolCalls.filter(call => call.id);
+    if (pending.length > 0) {
+      session.messages.push(
+        this.createToolResultMessage(
+          session,
+          pending.map(call => ({
+            toolCall: call,
+            text: `Unknown tool: ${call.name}`,
+            isError: true,
+          }))
+        )
+      );
+    }
+  }
+
+  /**
+   * Placeholder text for assistant turns that only contain tool calls
+   */
+  private describeToolCalls(toolCalls: ToolCall[]): string {
+    return toolCalls.length > 1
+      ? `I need to use the ${toolCalls.map(call => call.name).join(', ')} tools.`
+      : `I need to use the ${toolCalls[0].name} tool.`;
+  }
+
+  /**
+   * Stop a turn's tool calls once the session limit is reached. Pending
+   * tool_use blocks are answered with an error result so the history stays
+   * valid to replay.
+   * @returns The limit message, or null if the calls may proceed
+   */
+  private checkToolCallLimit(
+    session: ChatSession,
+    toolCalls: ToolCall[]
+  ): ChatMessage | null {
+    if (session.toolCallCount < session.maxToolCalls) {
+      return null;
+    }
+
+    const pending = toolCalls.filter(call => call.id);
+    if (pending.length > 0) {
+      session.messages.push(
+        this.createToolResultMessage(
+          session,
+          pending.map(call => ({
+            toolCall: call,
+            text: 'Tool call limit reached',
+            isError: true,
+          }))
+        )
+      );
+    }
+    return this.handleToolCallLimit(session);
+  }
+
   private handleToolCallLimit(session: ChatSession): ChatMessage | null {
     console.log(
       `[SESSION] Checking tool call limit: ${session.toolCallCount}/${session.maxToolCalls}`
@@ -443,26 +1331,25 @@ export class SessionManager {
     return null;
   }
 
-  async sendMessage(sessionId: string, message: string): Promise<ChatMessage> {
+  async sendMessage(
+    sessionId: string,
+    message: string,
+    options: SendMessageOptions = {}
+  ): Promise<ChatMessage> {
+    const turn = this.beginTurn(sessionId, options.signal);
     try {
       console.log(`[SESSION] Sending message for session ${sessionId}`);
       const session = this.getSession(sessionId);
-
-      // Initialize Anthropic client if not already initialized
-      if (!this.anthropic) {
-        console.log('[SESSION] Initializing Anthropic client');
-        this.anthropic = new Anthropic({
-          apiKey: session.config.api_key,
-        });
-      }
+      const provider = this.getProvider(session);
 
       // Add user message to history with token count
-      const userMessage = {
-        role: 'user' as const,
-        content: message,
-        timestamp: new Date(),
-        tokens: countTokens(message, session.config.model),
-      };
+      const userMessage = await this.createUserMessage(
+        session,
+        provider,
+        message,
+        options.resources,
+        turn.signal
+      );
       session.messages.push(userMessage);
       console.log(
         `[SESSION] Added user message to history (${userMessage.tokens} tokens)`
@@ -482,132 +1369,52 @@ export class SessionManager {
         this.optimizeContext(sessionId);
       }
 
-      // Format tools for Anthropic if available
-      const tools =
-        session.tools.length > 0
-          ? this.formatToolsForLLM(session.tools)
-          : undefined;
-      console.log('[SESSION] Formatted tools for Anthropic:', tools);
-
       // Update token metrics
       this.updateTokenMetrics(sessionId);
 
-      // Prepare API request parameters
-      const apiParams: any = {
-        model: session.config.model,
-        max_tokens: 1024,
-        system: session.config.system_prompt,
-        messages: session.messages
-          .filter(msg => msg.role !== 'system')
-          .map(msg => ({
-            role: msg.role === 'assistant' ? 'assistant' : 'user',
-            content: msg.content,
-          })),
-        tools: tools,
-      };
-
-      // Add thinking parameter for Claude 3.7+ models
-      if (supportsThinking(session.config.model)) {
-        console.log(
-          '[SESSION] Model supports thinking, adding thinking parameter'
-        );
-
-        // If thinking is explicitly disabled in config, don't add it
-        if (session.config.thinking?.enabled !== false) {
-          // Get budget from config or use default
-          const budgetTokens =
-            session.config.thinking?.budget_tokens ||
-            getDefaultThinkingBudget(session.config.model);
-
-          apiParams.thinking = {
-            type: 'enabled',
-            budget_tokens: budgetTokens,
-          };
-
-          console.log(
-            `[SESSION] Added thinking with budget: ${budgetTokens} tokens`
-          );
-        }
-      }
-
-      // Send message to Anthropic
-      console.log('[SESSION] Sending message to Anthropic');
-      const response = await this.anthropic.messages.create(apiParams);
+      // Send message through the session's provider
+      console.log(`[SESSION] Sending message to ${provider.name}`);
+      const {
+        response,
+        config: answeringConfig,
+        fallbacks,
+      } = await this.sendWithFallback(session, turn.signal);
 
       // Process response - check for tool calls first
       console.log('[SESSION] Checking for tool calls in response');
-      console.log(
-        '[SESSION] Response content:',
-        JSON.stringify(response.content)
-      );
 
-      let content = '';
+      let content = response.text;
       let hasToolCall = false;
-      let toolCall = undefined;
-
-      // Look for tool calls in the structured response
-      const toolCalls = response.content.filter(
-        item => item.type === 'tool_use'
-      );
+      let toolCall: ToolCall | undefined = undefined;
+      let toolCalls: ToolCall[] = [];
 
-      if (toolCalls && toolCalls.length > 0) {
-        // We have a tool call
+      if (response.toolCalls.length > 0) {
+        // We have one or more tool calls
         console.log('[SESSION] Tool call detected in structured response');
-        const toolUse = toolCalls[0]; // Use the first tool call for now
-
-        if (toolUse.id && toolUse.name && toolUse.input) {
-          hasToolCall = true;
-          try {
-            toolCall = {
-              name: toolUse.name,
-              parameters: toolUse.input,
-            };
-            console.log('[SESSION] Parsed structured tool call:', toolCall);
-          } catch (error) {
-            console.error('[SESSION] Failed to parse tool parameters:', error);
-            throw new LLMError('Invalid tool parameters format');
-          }
-        }
+        hasToolCall = true;
+        toolCalls = response.toolCalls;
+        toolCall = toolCalls[0];
+        console.log('[SESSION] Parsed structured tool calls:', toolCalls);
       }
 
-      // Extract text content
-      const textContent = response.content.filter(item => item.type === 'text');
-      if (textContent && textContent.length > 0) {
-        content = textContent[0].text;
-      } else if (toolCalls.length > 0) {
-        // If we only have tool calls, create a placeholder content
-        content = `I need to use the ${toolCalls[0].name} tool.`;
-      } else {
-        console.error('[SESSION] Empty response from LLM');
-        throw new LLMError('Empty response from LLM');
+      // Fall back to a placeholder when the response only contains tool calls
+      if (!content) {
+        if (hasToolCall && toolCall) {
+          content = this.describeToolCalls(toolCalls);
+        } else {
+          console.error('[SESSION] Empty response from LLM');
+          throw new LLMError('Empty response from LLM');
+        }
       }
 
       // For backward compatibility, also check for <tool> tag format
       if (!hasToolCall) {
-        const toolMatch = content.match(/<tool>(.*?)<\/tool>/s);
-
-        if (toolMatch && toolMatch[1]) {
+        const legacy = this.parseLegacyToolCall(content);
+        if (legacy.found) {
           console.log('[SESSION] Tool call detected in legacy tag format');
           hasToolCall = true;
-          const toolContent = toolMatch[1].trim();
-          const spaceIndex = toolContent.indexOf(' ');
-          if (spaceIndex > -1) {
-            const name = toolContent.slice(0, spaceIndex);
-            const paramsStr = toolContent.slice(spaceIndex + 1);
-            try {
-              toolCall = {
-                name,
-                parameters: JSON.parse(paramsStr),
-              };
-              console.log('[SESSION] Parsed legacy tool call:', toolCall);
-            } catch (error) {
-              console.error(
-                '[SESSION] Failed to parse tool parameters:',
-                error
-              );
-              throw new LLMError('Invalid tool parameters format');
-            }
-          }
+          toolCall = legacy.toolCall;
+          toolCalls = toolCall ? [toolCall] : [];
         }
       }
 
@@ -615,196 +1422,953 @@ export class SessionManager {
       const assistantMessage: ChatMessage = {
         role: 'assistant',
         content,
+        blocks: response.blocks,
         hasToolCall,
         toolCall,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
         timestamp: new Date(),
-        tokens: countTokens(content, session.config.model),
+        tokens: provider.countTokens(content, session.config.model),
+        ...this.answeredBy(answeringConfig, fallbacks),
       };
 
       // Execute tool call if available
       console.log(
-        `[SESSION] Tool execution check: hasToolCall=${hasToolCall}, toolCall=${JSON.stringify(
-          toolCall
-        )}, serverClients.size=${session.serverClients.size}`
+        `[SESSION] Tool execution check: hasToolCall=${hasToolCall}, toolCall=${JSON.stringify(
+          toolCall
+        )}, serverClients.size=${session.serverClients.size}`
+      );
+      console.log(
+        `[SESSION] All registered tools: ${JSON.stringify(
+          session.tools.map(t => t.name)
+        )}`
+      );
+
+      if (hasToolCall && toolCall && this.hasKnownTool(session, toolCalls)) {
+        // Add assistant message to history before processing tool call
+        session.messages.push(assistantMessage);
+
+        // Check if we've already reached the limit before incrementing
+        const limitMessage = this.checkToolCallLimit(session, toolCalls);
+        if (limitMessage) {
+          return limitMessage;
+        }
+
+        // Increment the tool call counter before executing the tool
+        session.toolCallCount++;
+        return await this.processToolCall(
+          sessionId,
+          assistantMessage,
+          turn.signal
+        );
+      }
+
+      // If no tool call or not processed, add message to history and return
+      session.messages.push(assistantMessage);
+      this.answerUnknownToolCalls(session, toolCalls);
+
+      // Update session activity
+      this.updateSessionActivity(sessionId);
+
+      return assistantMessage;
+    } catch (error) {
+      if (turn.signal.aborted) {
+        console.log(`[SESSION] Turn cancelled for session ${sessionId}`);
+        throw new LLMCancelledError();
+      }
+      console.error('Failed to send message:', error);
+      throw new LLMError(
+        error instanceof Error
+          ? error.message
+          : 'Unknown error during message sending'
+      );
+    } finally {
+      this.endTurn(sessionId, turn);
+    }
+  }
+
+  /**
+   * Build a user message, inlining the contents of any attached resources
+   * so they reach the model and count towards the session's token usage
+   */
+  private async createUserMessage(
+    session: ChatSession,
+    provider: LLMProvider,
+    message: string,
+    resourceUris: string[] = [],
+    signal?: AbortSignal
+  ): Promise<ChatMessage> {
+    const sections = [message];
+    for (const uri of resourceUris) {
+      const contents = await this.readSessionResource(session, uri, signal);
+      sections.push(...contents.map(content => this.formatResource(content)));
+    }
+
+    // Pinned resources that changed since they were last attached. A pinned
+    // resource that can't be read is skipped rather than blocking the turn.
+    const attachments = [...resourceUris];
+    const changed = (session.resourceSubscriptions || []).filter(
+      subscription =>
+        subscription.pinned &&
+        subscription.changed &&
+        !resourceUris.includes(subscription.uri)
+    );
+    for (const subscription of changed) {
+      try {
+        const contents = await this.readSessionResource(
+          session,
+          subscription.uri,
+          signal
+        );
+        sections.push(...contents.map(content => this.formatResource(content)));
+        attachments.push(subscription.uri);
+        subscription.changed = false;
+      } catch (error) {
+        console.error(
+          `[SESSION] Failed to attach pinned resource ${subscription.uri}:`,
+          error
+        );
+      }
+    }
+
+    const content = sections.join('\n\n');
+    return {
+      role: 'user',
+      content,
+      ...(attachments.length > 0 ? { attachments } : {}),
+      timestamp: new Date(),
+      tokens: provider.countTokens(content, session.config.model),
+    };
+  }
+
+  /**
+   * Render resource contents for the prompt. Binary contents can't be
+   * inlined as text, so only a description is included.
+   */
+  private formatResource(content: ResourceContents): string {
+    const mimeType = content.mimeType ? ` mimeType="${content.mimeType}"` : '';
+    const body =
+      content.text ??
+      `[Binary content, ${
+        Buffer.from(content.blob || '', 'base64').length
+      } bytes]`;
+    return `<resource uri="${content.uri}"${mimeType}>\n${body}\n</resource>`;
+  }
+
+  /**
+   * Read a resource through MCP resources/read
+   * @returns The resource contents; binary contents are base64 in `blob`
+   */
+  async readResource(
+    sessionId: string,
+    uri: string
+  ): Promise<ResourceContents[]> {
+    const session = this.getSession(sessionId);
+    return this.readSessionResource(session, uri);
+  }
+
+  private async readSessionResource(
+    session: ChatSession,
+    uri: string,
+    signal?: AbortSignal
+  ): Promise<ResourceContents[]> {
+    // Listed resources go to the server that exposed them; other URIs
+    // (e.g. from resource templates) are tried on each server in turn
+    const owner = session.resources.find(
+      resource => resource.uri === uri
+    )?.server;
+    const candidates = owner
+      ? [owner]
+      : Array.from(session.serverClients.keys());
+
+    let lastError: unknown;
+    for (const serverName of candidates) {
+      const client = session.serverClients.get(serverName);
+      if (!client) {
+        continue;
+      }
+      try {
+        console.log(`[SESSION] Reading resource ${uri} from ${serverName}`);
+        const result = await client.readResource({ uri }, { signal });
+        return result.contents.map(content => ({
+          uri: content.uri,
+          ...(content.mimeType ? { mimeType: content.mimeType } : {}),
+          ...('text' in content && typeof content.text === 'string'
+            ? { text: content.text }
+            : {}),
+          ...('blob' in content && typeof content.blob === 'string'
+            ? { blob: content.blob }
+            : {}),
+        }));
+      } catch (error) {
+        console.error(
+          `[SESSION] Error reading resource ${uri} from ${serverName}:`,
+          error
+        );
+        lastError = error;
+      }
+    }
+
+    throw new LLMError(
+      lastError instanceof Error
+        ? `Failed to read resource ${uri}: ${lastError.message}`
+        : `No server found for resource ${uri}`
+    );
+  }
+
+  /**
+   * Subscribe to updates of a resource through MCP resources/subscribe.
+   * Each update is emitted as a resource_updated session event; a pinned
+   * resource's new contents are also attached to the next user message.
+   */
+  async subscribeResource(
+    sessionId: string,
+    uri: string,
+    options: { pin?: boolean } = {}
+  ): Promise<ResourceSubscription> {
+    const session = this.getSession(sessionId);
+    const existing = session.resourceSubscriptions?.find(
+      subscription => subscription.uri === uri
+    );
+    if (existing) {
+      existing.pinned = options.pin ?? existing.pinned;
+      return existing;
+    }
+
+    const owner = session.resources.find(
+      resource => resource.uri === uri
+    )?.server;
+    const candidates = owner
+      ? [owner]
+      : Array.from(session.serverClients.keys());
+
+    let lastError: unknown;
+    for (const serverName of candidates) {
+      const client = session.serverClients.get(serverName);
+      if (!client) {
+        continue;
+      }
+      try {
+        await client.subscribeResource({ uri });
+        const subscription: ResourceSubscription = {
+          uri,
+          server: serverName,
+          pinned: options.pin ?? false,
+        };
+        session.resourceSubscriptions = [
+          ...(session.resourceSubscriptions || []),
+          subscription,
+        ];
+        console.log(`[SESSION] Subscribed to ${uri} on ${serverName}`);
+        return subscription;
+      } catch (error) {
+        console.error(
+          `[SESSION] Error subscribing to ${uri} on ${serverName}:`,
+          error
+        );
+        lastError = error;
+      }
+    }
+
+    throw new LLMError(
+      lastError instanceof Error
+        ? `Failed to subscribe to resource ${uri}: ${lastError.message}`
+        : `No server found for resource ${uri}`
+    );
+  }
+
+  /**
+   * Stop receiving updates for a resource
+   * @returns false if the session wasn't subscribed to the resource
+   */
+  async unsubscribeResource(sessionId: string, uri: string): Promise<boolean> {
+    const session = this.getSession(sessionId);
+    const subscription = session.resourceSubscriptions?.find(
+      candidate => candidate.uri === uri
+    );
+    if (!subscription) {
+      return false;
+    }
+    session.resourceSubscriptions = session.resourceSubscriptions?.filter(
+      candidate => candidate !== subscription
+    );
+
+    const client = session.serverClients.get(subscription.server);
+    // Subscriptions are per connection, and a shared server's connection
+    // may still have other sessions subscribed
+    const stillSubscribed = Array.from(globalSessions.values()).some(
+      other =>
+        other !== session &&
+        other.resourceSubscriptions?.some(
+          candidate =>
+            candidate.uri === uri &&
+            other.serverClients.get(candidate.server) === client
+        )
+    );
+    if (stillSubscribed) {
+      return true;
+    }
+    try {
+      await client?.unsubscribeResource({ uri });
+      console.log(
+        `[SESSION] Unsubscribed from ${uri} on ${subscription.server}`
+      );
+    } catch (error) {
+      // The subscription is dropped locally either way
+      console.error(
+        `[SESSION] Error unsubscribing from ${uri} on ${subscription.server}:`,
+        error
+      );
+    }
+    return true;
+  }
+
+  private handleResourceUpdated(
+    session: ChatSession,
+    serverName: string,
+    uri: string
+  ): void {
+    const subscription = session.resourceSubscriptions?.find(
+      candidate => candidate.uri === uri && candidate.server === serverName
+    );
+    // A shared server's updates reach every session using it
+    if (!subscription) {
+      return;
+    }
+    console.log(`[SESSION] Resource ${uri} updated on ${serverName}`);
+    if (subscription.pinned) {
+      subscription.changed = true;
+    }
+    this.emitSessionEvent({
+      type: 'resource_updated',
+      sessionId: session.id,
+      server: serverName,
+      uri,
+    });
+  }
+
+  /**
+   * Run a prompt provided by one of the session's servers. The prompt's
+   * messages are added to the conversation and its final user message is
+   * sent like any other, so tool calls run as usual. If sending fails, the
+   * conversation is left as it was, so the prompt can be run again.
+   * @param args - Values for the prompt's arguments
+   */
+  async runPrompt(
+    sessionId: string,
+    serverName: string,
+    promptName: string,
+    args: Record<string, string> = {},
+    options: SendMessageOptions = {}
+  ): Promise<ChatMessage> {
+    const session = this.getSession(sessionId);
+    const client =
+      session.serverClients.get(serverName) ??
+      (await this.startLazyServer(session, serverName));
+    if (!client) {
+      throw new LLMError(`Server not found: ${serverName}`);
+    }
+
+    const prompt = session.prompts.find(
+      candidate =>
+        candidate.server === serverName && candidate.name === promptName
+    );
+    const missing = (prompt?.arguments || []).filter(
+      argument => argument.required && args[argument.name] === undefined
+    );
+    if (missing.length > 0) {
+      throw new LLMError(
+        `Missing required arguments for prompt ${promptName}: ${missing
+          .map(argument => argument.name)
+          .join(', ')}`
+      );
+    }
+
+    let result;
+    try {
+      console.log(`[SESSION] Getting prompt ${promptName} from ${serverName}`);
+      result = await client.getPrompt(
+        { name: promptName, arguments: args },
+        { signal: options.signal }
+      );
+    } catch (error) {
+      console.error(
+        `[SESSION] Error getting prompt ${promptName} from ${serverName}:`,
+        error
+      );
+      throw new LLMError(
+        `Failed to get prompt ${promptName}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    const messages = result.messages.map(message => ({
+      role: message.role,
+      content: this.formatPromptContent(message.content),
+    }));
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'user') {
+      throw new LLMError(`Prompt ${promptName} must end with a user message`);
+    }
+
+    // Earlier messages set up the conversation; the last one starts the turn
+    const provider = this.getProvider(session);
+    const history = new Set(session.messages);
+    for (const message of messages.slice(0, -1)) {
+      session.messages.push({
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(),
+        tokens: provider.countTokens(message.content, session.config.model),
+      });
+    }
+    console.log(
+      `[SESSION] Expanded prompt ${promptName} into ${messages.length} messages`
+    );
+
+    try {
+      return await this.sendMessage(sessionId, last.content, options);
+    } catch (error) {
+      // Drop the prompt's messages and whatever the failed turn added
+      session.messages = session.messages.filter(message =>
+        history.has(message)
+      );
+      this.updateTokenMetrics(sessionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Render one piece of prompt message content as text
+   */
+  private formatPromptContent(content: PromptMessage['content']): string {
+    switch (content.type) {
+      case 'text':
+        return content.text;
+      case 'resource':
+        return this.formatResource({
+          uri: content.resource.uri,
+          mimeType: content.resource.mimeType,
+          ...('text' in content.resource
+            ? { text: content.resource.text as string }
+            : { blob: content.resource.blob as string }),
+        });
+      case 'resource_link':
+        return `[Resource: ${content.uri}]`;
+      default:
+        return `[${content.type} content, ${content.mimeType}]`;
+    }
+  }
+
+  /**
+   * Handlers for requests a session's server sends back to the client
+   */
+  private discoveryOptions(
+    session: ChatSession,
+    serverName: string
+  ): DiscoveryOptions {
+    return {
+      onSamplingRequest: (params, signal) =>
+        this.handleSamplingRequest(session, serverName, params, signal),
+      onListChanged: list => {
+        console.log(
+          `[SESSION] Server ${serverName} reported a ${list} list change`
+        );
+        void this.refreshServerCapabilities(session, serverName);
+      },
+      onResourceUpdated: uri =>
+        this.handleResourceUpdated(session, serverName, uri),
+      onListRoots: () => session.roots,
+      onLogMessage: params =>
+        this.emitSessionEvent({
+          type: 'server_log',
+          sessionId: session.id,
+          server: serverName,
+          level: params.level,
+          ...(params.logger ? { logger: params.logger } : {}),
+          data: params.data,
+        }),
+    };
+  }
+
+  /**
+   * State of each of a session's servers, with the round trip of the last
+   * ping they answered. Servers the session isn't using are NotStarted.
+   */
+  getServerHealth(sessionId: string): ({ server: string } & ServerHealth)[] {
+    const session = this.getSession(sessionId);
+    return Object.keys(session.config.servers ?? {}).map(server => ({
+      server,
+      ...(this.serverPool.getHealth(sessionId, server) ?? {
+        state: ServerState.NotStarted,
+        failedPings: 0,
+      }),
+    }));
+  }
+
+  /**
+   * Set the minimum level of log messages a server sends, through MCP
+   * logging/setLevel. Messages arrive as server_log session events.
+   */
+  async setServerLogLevel(
+    sessionId: string,
+    serverName: string,
+    level: ServerLogLevel
+  ): Promise<void> {
+    const session = this.getSession(sessionId);
+    const client = session.serverClients.get(serverName);
+    if (!client) {
+      throw new LLMError(`Server not found: ${serverName}`);
+    }
+    await client.setLoggingLevel(level);
+    console.log(`[SESSION] Set log level of ${serverName} to ${level}`);
+  }
+
+  /**
+   * Describe a workspace directory as an MCP root
+   * @param directory - A path, resolved against the working directory, or a file:// URI
+   */
+  private toRoot(directory: string): MCPRoot {
+    if (directory.startsWith('file://')) {
+      return { uri: directory };
+    }
+    const resolved = path.resolve(directory);
+    return { uri: pathToFileURL(resolved).href, name: path.basename(resolved) };
+  }
+
+  /**
+   * Replace the workspace roots a session offers to its servers. Servers
+   * are sent roots/list_changed and fetch the new list when they need it.
+   */
+  async setRoots(sessionId: string, directories: string[]): Promise<MCPRoot[]> {
+    const session = this.getSession(sessionId);
+    session.roots = directories.map(directory => this.toRoot(directory));
+    console.log(
+      `[SESSION] Updated roots for session ${sessionId}: ${JSON.stringify(
+        session.roots.map(root => root.uri)
+      )}`
+    );
+
+    await Promise.all(
+      Array.from(session.serverClients.entries()).map(
+        async ([serverName, client]) => {
+          try {
+            // A shared server only sees roots all its sessions offer, so
+            // the session may move to a server of its own
+            const moved = await this.serverPool.updateRoots(
+              sessionId,
+              serverName
+            );
+            if (moved) {
+              await this.reattachServer(session, serverName, moved);
+              return;
+            }
+            await client.sendRootsListChanged();
+          } catch (error) {
+            console.error(
+              `[SESSION] Error applying changed roots to ${serverName}:`,
+              error
+            );
+          }
+        }
+      )
+    );
+    return session.roots;
+  }
+
+  /**
+   * Replace the tools, resources and prompts a server contributes to a
+   * session. Each list is swapped in one assignment, so a turn never sees a
+   * server's capabilities half updated.
+   */
+  private setServerCapabilities(
+    session: ChatSession,
+    serverName: string,
+    capabilities: ServerCapabilities
+  ): void {
+    session.tools = [
+      ...session.tools.filter(tool => tool.server !== serverName),
+      ...capabilities.tools.map(tool => ({ ...tool, server: serverName })),
+    ];
+    session.resources = [
+      ...session.resources.filter(resource => resource.server !== serverName),
+      ...capabilities.resources.map(resource => ({
+        ...resource,
+        server: serverName,
+      })),
+    ];
+    session.prompts = [
+      ...session.prompts.filter(prompt => prompt.server !== serverName),
+      ...(capabilities.prompts || []).map(prompt => ({
+        ...prompt,
+        server: serverName,
+      })),
+    ];
+  }
+
+  /**
+   * List a server's capabilities again after it reports a change. Refreshes
+   * for the same server run one after another, so an older listing never
+   * replaces a newer one.
+   */
+  private refreshServerCapabilities(
+    session: ChatSession,
+    serverName: string
+  ): Promise<void> {
+    const key = `${session.id}:${serverName}`;
+    const previous = this.capabilityRefreshes.get(key) || Promise.resolve();
+    const refresh = previous.then(async () => {
+      const client = session.serverClients.get(serverName);
+      if (!client) {
+        return;
+      }
+      try {
+        const capabilities = await this.serverDiscovery.listCapabilities(
+          serverName,
+          client
+        );
+        // The server may have been restarted or closed while listing
+        if (session.serverClients.get(serverName) !== client) {
+          return;
+        }
+        this.setServerCapabilities(session, serverName, capabilities);
+        this.warnOnToolNameCollisions(session);
+        console.log(
+          `[SESSION] Refreshed capabilities of ${serverName}: ${capabilities.tools.length} tools, ${capabilities.resources.length} resources`
+        );
+        this.emitCapabilitiesChanged(session, serverName);
+      } catch (error) {
+        console.error(
+          `[SESSION] Failed to refresh capabilities of ${serverName}:`,
+          error
+        );
+      }
+    });
+    this.capabilityRefreshes.set(key, refresh);
+    void refresh.then(() => {
+      if (this.capabilityRefreshes.get(key) === refresh) {
+        this.capabilityRefreshes.delete(key);
+      }
+    });
+    return refresh;
+  }
+
+  private emitCapabilitiesChanged(
+    session: ChatSession,
+    serverName: string
+  ): void {
+    this.emitSessionEvent({
+      type: 'capabilities_changed',
+      sessionId: session.id,
+      server: serverName,
+      tools: session.tools.filter(tool => tool.server === serverName),
+      resources: session.resources.filter(
+        resource => resource.server === serverName
+      ),
+      prompts: session.prompts.filter(prompt => prompt.server === serverName),
+    });
+  }
+
+  /**
+   * Listen for events from all sessions
+   * @returns A function that removes the listener
+   */
+  onSessionEvent(listener: SessionEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  private emitSessionEvent(event: SessionEvent): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[SESSION] Session event listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Register a callback that approves, denies or limits servers' sampling
+   * requests. Without a policy, every request is approved.
+   */
+  setSamplingPolicy(policy?: SamplingPolicy): void {
+    this.samplingPolicy = policy;
+  }
+
+  /**
+   * Answer a server's sampling/createMessage request with the session's
+   * model. The completion is kept out of the conversation, but its tokens
+   * count towards the session's usage and cost.
+   */
+  private async handleSamplingRequest(
+    session: ChatSession,
+    serverName: string,
+    params: CreateMessageRequest['params'],
+    signal: AbortSignal
+  ): Promise<CreateMessageResult> {
+    const usage = session.samplingUsage || {
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+    };
+    const request: SamplingRequest = {
+      sessionId: session.id,
+      server: serverName,
+      messages: params.messages.map(message => ({
+        role: message.role,
+        content: this.formatSamplingContent(message.content),
+      })),
+      ...(params.systemPrompt ? { systemPrompt: params.systemPrompt } : {}),
+      maxTokens: params.maxTokens,
+      usage: { ...usage },
+    };
+
+    const decision = this.samplingPolicy
+      ? await this.samplingPolicy(request)
+      : { approved: true as const };
+    if (!decision.approved) {
+      console.log(
+        `[SESSION] Sampling request from ${serverName} denied${
+          decision.reason ? `: ${decision.reason}` : ''
+        }`
+      );
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Sampling request denied${decision.reason ? `: ${decision.reason}` : ''}`
+      );
+    }
+    const maxTokens = Math.min(
+      request.maxTokens,
+      decision.maxTokens ?? request.maxTokens
+    );
+
+    const provider = this.getProvider(session);
+    const model = session.config.model;
+    const messages: ChatMessage[] = request.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      timestamp: new Date(),
+    }));
+
+    let response: LLMResponse;
+    try {
+      console.log(
+        `[SESSION] Sampling ${maxTokens} tokens with ${model} for ${serverName}`
       );
-      console.log(
-        `[SESSION] All registered tools: ${JSON.stringify(
-          session.tools.map(t => t.name)
-        )}`
+      response = await provider.sendMessage({
+        model,
+        systemPrompt: request.systemPrompt,
+        messages,
+        maxTokens,
+        // Thinking budgets can exceed the small limits servers ask for
+        thinking: { enabled: false },
+        signal,
+      });
+    } catch (error) {
+      console.error(
+        `[SESSION] Sampling request from ${serverName} failed:`,
+        error
+      );
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Sampling failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
       );
+    }
 
-      if (hasToolCall && toolCall && session.serverClients.size > 0) {
-        // Add assistant message to history before processing tool call
-        session.messages.push(assistantMessage);
+    const inputTokens =
+      response.usage?.inputTokens ??
+      messages.reduce(
+        (total, message) =>
+          total + provider.countTokens(message.content, model),
+        request.systemPrompt
+          ? provider.countTokens(request.systemPrompt, model)
+          : 0
+      );
+    const outputTokens =
+      response.usage?.outputTokens ??
+      provider.countTokens(response.text, model);
+    // Read the totals again: other requests may have finished meanwhile
+    const current = session.samplingUsage || usage;
+    session.samplingUsage = {
+      requests: current.requests + 1,
+      inputTokens: current.inputTokens + inputTokens,
+      outputTokens: current.outputTokens + outputTokens,
+    };
+    // The session may have closed while the completion ran
+    if (this.isOpen(session)) {
+      this.updateTokenMetrics(session.id);
+    }
 
-        // Check if we've already reached the limit before incrementing
-        if (session.toolCallCount >= session.maxToolCalls) {
-          // If we've reached the limit, return the final response
-          const limitMessage: ChatMessage = {
-            role: 'assistant',
-            content:
-              'I have reached the tool call limit. Here is what I found in the first two directories...',
-            hasToolCall: false,
-          };
-          session.messages.push(limitMessage);
-          return limitMessage;
-        }
+    return {
+      model,
+      role: 'assistant',
+      content: { type: 'text', text: response.text },
+      ...(response.stopReason
+        ? {
+            stopReason:
+              SAMPLING_STOP_REASONS[response.stopReason] || response.stopReason,
+          }
+        : {}),
+    };
+  }
 
-        // Increment the tool call counter before executing the tool
-        session.toolCallCount++;
-        return await this.processToolCall(sessionId, assistantMessage);
-      }
+  /**
+   * Render sampling message content as text
+   */
+  private formatSamplingContent(content: SamplingMessage['content']): string {
+    const blocks = Array.isArray(content) ? content : [content];
+    return blocks
+      .map(block =>
+        block.type === 'text' ? block.text : `[${block.type} content]`
+      )
+      .join('\n');
+  }
 
-      // If no tool call or not processed, add message to history and return
-      session.messages.push(assistantMessage);
+  /**
+   * Stop the turn in progress for a session, aborting its LLM request and
+   * any running tool calls
+   * @returns true if a turn was running
+   */
+  cancel(sessionId: string): boolean {
+    const turn = this.activeTurns.get(sessionId);
+    if (!turn) {
+      return false;
+    }
+    console.log(`[SESSION] Cancelling turn for session ${sessionId}`);
+    turn.abort();
+    return true;
+  }
 
-      // Update session activity
-      this.updateSessionActivity(sessionId);
+  /**
+   * Track a new turn for a session, following the caller's signal if given
+   */
+  private beginTurn(sessionId: string, signal?: AbortSignal): AbortController {
+    const turn = new AbortController();
+    if (signal?.aborted) {
+      turn.abort();
+    } else {
+      signal?.addEventListener('abort', () => turn.abort(), {
+        once: true,
+        signal: turn.signal,
+      });
+    }
+    this.activeTurns.set(sessionId, turn);
+    return turn;
+  }
 
-      return assistantMessage;
-    } catch (error) {
-      console.error('Failed to send message:', error);
-      throw new LLMError(
-        error instanceof Error
-          ? error.message
-          : 'Unknown error during message sending'
-      );
+  private endTurn(sessionId: string, turn: AbortController): void {
+    if (this.activeTurns.get(sessionId) === turn) {
+      this.activeTurns.delete(sessionId);
     }
   }
 
   async *sendMessageStream(
     sessionId: string,
-    message: string
-  ): AsyncGenerator<{ type: string; content?: string; error?: string }> {
+    message: string,
+    options: SendMessageOptions = {}
+  ): AsyncGenerator<StreamChunk> {
+    const turn = this.beginTurn(sessionId, options.signal);
     try {
       console.log('[SESSION] Getting session:', sessionId);
       const session = this.getSession(sessionId);
-
-      // Initialize Anthropic client if not already initialized
-      if (!this.anthropic) {
-        console.log('[SESSION] Initializing Anthropic client');
-        this.anthropic = new Anthropic({
-          apiKey: session.config.api_key,
-        });
-      }
+      const provider = this.getProvider(session);
 
       // Add user message to history
-      session.messages.push({
-        role: 'user',
-        content: message,
-      });
-
-      // Format tools for Anthropic if available
-      const tools =
-        session.tools.length > 0
-          ? this.formatToolsForLLM(session.tools)
-          : undefined;
-      console.log('[SESSION] Formatted tools for Anthropic:', tools);
-
-      console.log('[SESSION] Creating stream with messages:', session.messages);
+      session.messages.push(
+        await this.createUserMessage(
+          session,
+          provider,
+          message,
+          options.resources,
+          turn.signal
+        )
+      );
 
       // Update token metrics
       this.updateTokenMetrics(sessionId);
 
-      // Prepare streaming API request parameters
-      const streamApiParams: any = {
-        model: session.config.model,
-        max_tokens: 1024,
-        messages: session.messages.map(msg => ({
-          role: msg.role === 'system' ? 'user' : msg.role,
-          content: msg.content,
-        })),
-        tools: tools,
-        stream: true,
-      };
-
-      // Add thinking parameter for Claude 3.7+ models
-      if (supportsThinking(session.config.model)) {
-        console.log(
-          '[SESSION] Model supports thinking for streaming, adding thinking parameter'
+      // Stream model turns until the model stops asking for tools
+      for (;;) {
+        const accumulator = new StreamAccumulator();
+        const answered = yield* this.streamWithFallback(
+          session,
+          accumulator,
+          turn.signal
         );
+        if (!answered) {
+          break;
+        }
 
-        // If thinking is explicitly disabled in config, don't add it
-        if (session.config.thinking?.enabled !== false) {
-          // Get budget from config or use default
-          const budgetTokens =
-            session.config.thinking?.budget_tokens ||
-            getDefaultThinkingBudget(session.config.model);
+        // Look for structured tool calls, then the legacy tag format
+        let toolCalls = accumulator.getToolCalls();
+        if (toolCalls.length === 0) {
+          const legacyToolCall = this.parseLegacyToolCall(
+            accumulator.text
+          ).toolCall;
+          toolCalls = legacyToolCall ? [legacyToolCall] : [];
+        }
 
-          streamApiParams.thinking = {
-            type: 'enabled',
-            budget_tokens: budgetTokens,
-          };
+        const content =
+          accumulator.text ||
+          (toolCalls.length > 0 ? this.describeToolCalls(toolCalls) : '');
+        const assistantMessage: ChatMessage = {
+          role: 'assistant',
+          content,
+          blocks: accumulator.getBlocks(),
+          hasToolCall: toolCalls.length > 0,
+          toolCall: toolCalls[0],
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+          timestamp: new Date(),
+          tokens: provider.countTokens(content, session.config.model),
+          ...this.answeredBy(answered.config, answered.fallbacks),
+        };
+        session.messages.push(assistantMessage);
+        this.updateTokenMetrics(sessionId);
 
-          console.log(
-            `[SESSION] Added thinking with budget: ${budgetTokens} tokens`
-          );
+        if (!this.hasKnownTool(session, toolCalls)) {
+          this.answerUnknownToolCalls(session, toolCalls);
+          break;
         }
-      }
 
-      try {
-        // Send message to Anthropic with streaming
-        console.log('[SESSION] Creating Anthropic stream');
-        const stream = await this.anthropic.messages.create(streamApiParams);
-
-        console.log('[SESSION] Starting to process Anthropic stream');
-
-        // Use the Anthropic SDK's built-in async iterator
-        // Cast to any to avoid TypeScript errors with the stream type
-        const iterator = (stream as any)[Symbol.asyncIterator]();
-        let iterResult = await iterator.next();
-
-        // Track if we've seen tool calls
-        let hasSeenToolCall = false;
-
-        while (!iterResult.done) {
-          const chunk = iterResult.value;
-
-          if (
-            chunk.type === 'content_block_delta' &&
-            chunk.delta.type === 'text_delta'
-          ) {
-            // Content chunks
-            yield { type: 'content', content: chunk.delta.text };
-          } else if (chunk.type === 'thinking') {
-            // Thinking chunks
-            console.log('[SESSION] Received thinking chunk');
-            yield {
-              type: 'thinking',
-              content: chunk.thinking || 'Thinking...',
-            };
-          } else if (
-            chunk.type === 'content_block_start' &&
-            chunk.content_block.type === 'tool_use'
-          ) {
-            // Tool call detected
-            console.log(
-              '[SESSION] Tool call detected in stream',
-              JSON.stringify(chunk.content_block)
-            );
-            hasSeenToolCall = true;
-            const toolName = chunk.content_block.name || 'unknown';
-            yield {
-              type: 'tool_start',
-              content: `Using tool: ${toolName}`,
-            };
-          } else if (
-            chunk.type === 'content_block_delta' &&
-            chunk.delta.type === 'tool_use_delta'
-          ) {
-            // Tool call parameter delta
-            // We don't yield this as it's internal tool call building
-            console.log('[SESSION] Tool parameter delta received');
-          } else if (chunk.type === 'message_delta' && chunk.usage) {
-            // Usage information - can be used to update token metrics
-            console.log('[SESSION] Usage information received:', chunk.usage);
-          }
+        const limitMessage = this.checkToolCallLimit(session, toolCalls);
+        if (limitMessage) {
+          yield { type: 'content', content: limitMessage.content };
+          break;
+        }
+        session.toolCallCount++;
+
+        // Hold calls that need approval, telling the caller which ones
+        const { pending, decisions } = this.requestToolApprovals(
+          session,
+          toolCalls,
+          turn.signal
+        );
+        for (const approval of pending) {
+          yield { type: 'approval_required', approval };
+        }
 
-          iterResult = await iterator.next();
+        // Run the turn's tool calls and report each result as it's recorded
+        const outcomes = yield* this.streamToolCalls(
+          session,
+          toolCalls,
+          await decisions,
+          turn.signal
+        );
+        for (const outcome of outcomes) {
+          yield { type: 'tool_result', content: outcome.text };
+        }
+        session.messages.push(this.createToolResultMessage(session, outcomes));
+        this.updateTokenMetrics(sessionId);
+
+        if (turn.signal.aborted) {
+          yield { type: 'error', error: 'Request cancelled' };
+          break;
         }
-      } catch (error) {
-        console.error('[SESSION] Error processing stream:', error);
-        yield { type: 'error', error: 'Error processing stream' };
       }
 
       yield { type: 'done' };
@@ -818,7 +2382,136 @@ export class SessionManager {
         error:
           error instanceof Error ? error.message : 'Unknown error occurred',
       };
+    } finally {
+      this.endTurn(sessionId, turn);
+    }
+  }
+
+  /**
+   * Run a turn's tool calls, forwarding the progress and log messages the
+   * session's servers send while they run
+   * @returns One outcome per tool call, as from executeToolCalls
+   */
+  private async *streamToolCalls(
+    session: ChatSession,
+    toolCalls: ToolCall[],
+    decisions: Map<ToolCall, ToolApprovalDecision>,
+    signal: AbortSignal
+  ): AsyncGenerator<StreamChunk, ToolCallOutcome[]> {
+    const chunks: StreamChunk[] = [];
+    let wake = () => {};
+    const unsubscribe = this.onSessionEvent(event => {
+      if (event.sessionId !== session.id) {
+        return;
+      }
+      if (event.type === 'tool_progress') {
+        const { type, sessionId, ...progress } = event;
+        chunks.push({ type, progress });
+      } else if (event.type === 'server_log') {
+        const { type, sessionId, ...log } = event;
+        chunks.push({ type, log });
+      } else {
+        return;
+      }
+      wake();
+    });
+
+    let finished = false;
+    const execution = this.executeToolCalls(
+      session,
+      toolCalls,
+      decisions,
+      signal
+    ).finally(() => {
+      finished = true;
+      wake();
+    });
+    try {
+      while (!finished || chunks.length > 0) {
+        const chunk = chunks.shift();
+        if (chunk) {
+          yield chunk;
+        } else {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+      }
+      return await execution;
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Stream one model turn into the accumulator, forwarding events to the
+   * caller. Walks the fallback chain until a model starts streaming; once
+   * events have been forwarded the turn can't be replayed on another model.
+   * @returns The configuration that answered, or undefined after an error
+   */
+  private async *streamWithFallback(
+    session: ChatSession,
+    accumulator: StreamAccumulator,
+    signal?: AbortSignal
+  ): AsyncGenerator<
+    StreamChunk,
+    { config: LLMConfig; fallbacks: FallbackAttempt[] } | undefined
+  > {
+    const chain = buildFallbackChain(session.config);
+    const fallbacks: FallbackAttempt[] = [];
+
+    for (let i = 0; i < chain.length; i++) {
+      const config = chain[i];
+      try {
+        const provider =
+          i === 0 ? this.getProvider(session) : createProvider(config);
+        console.log(
+          `[SESSION] Starting ${provider.name} stream with ${config.model}`
+        );
+        for await (const event of provider.streamMessage(
+          this.buildRequest(session, config.model, signal)
+        )) {
+          accumulator.add(event);
+          if (event.type === 'content') {
+            yield { type: 'content', content: event.content };
+          } else if (event.type === 'thinking') {
+            yield { type: 'thinking', content: event.content };
+          } else if (event.type === 'tool_start') {
+            yield {
+              type: 'tool_start',
+              content: `Using tool: ${event.toolCall.name}`,
+            };
+          }
+        }
+        return { config, fallbacks };
+      } catch (error) {
+        if (signal?.aborted) {
+          console.log('[SESSION] Stream cancelled');
+          yield { type: 'error', error: 'Request cancelled' };
+          return undefined;
+        }
+        if (
+          !accumulator.isEmpty ||
+          i === chain.length - 1 ||
+          !isRetryableLLMError(error)
+        ) {
+          console.error('[SESSION] Error processing stream:', error);
+          yield { type: 'error', error: 'Error processing stream' };
+          return undefined;
+        }
+        fallbacks.push(toFallbackAttempt(config, error));
+        const next = chain[i + 1];
+        console.warn(
+          `[SESSION] ${config.type}/${config.model} failed, falling back to ${next.type}/${next.model}:`,
+          error
+        );
+        yield {
+          type: 'fallback',
+          content: `Falling back from ${config.model} to ${next.model}`,
+        };
+      }
     }
+    return undefined;
   }
 
   getSession(sessionId: string): ChatSession {
@@ -829,6 +2522,13 @@ export class SessionManager {
     return session;
   }
 
+  /**
+   * Whether a session is still stored, i.e. hasn't been closed
+   */
+  private isOpen(session: ChatSession): boolean {
+    return globalSessions.get(session.id) === session;
+  }
+
   updateSessionActivity(sessionId: string): void {
     const session = this.getSession(sessionId);
     // Ensure we get a new timestamp by using performance.now()
@@ -863,12 +2563,18 @@ export class SessionManager {
       modelName
     );
 
+    // Sampling tokens cost money but never enter the context window
+    const sampling = session.samplingUsage;
+
     // Update token metrics
     const metrics: TokenMetrics = {
       userTokens: tokenCounts.userTokens,
       assistantTokens: tokenCounts.assistantTokens,
       systemTokens: tokenCounts.systemTokens,
       toolTokens: tokenCounts.toolTokens,
+      ...(sampling
+        ? { samplingTokens: sampling.inputTokens + sampling.outputTokens }
+        : {}),
       totalTokens: tokenCounts.totalTokens,
       maxContextTokens: maxContextTokens,
       percentUsed: percentUsed,
@@ -876,7 +2582,17 @@ export class SessionManager {
     };
 
     // Update cost estimation
-    const costEstimate = calculateTokenCost(tokenCounts, modelName);
+    const costEstimate = calculateTokenCost(
+      sampling
+        ? {
+            ...tokenCounts,
+            userTokens: tokenCounts.userTokens + sampling.inputTokens,
+            assistantTokens:
+              tokenCounts.assistantTokens + sampling.outputTokens,
+          }
+        : tokenCounts,
+      modelName
+    );
 
     // Update session data
     session.tokenMetrics = metrics;
@@ -969,6 +2685,90 @@ export class SessionManager {
 
     console.log(`[SESSION] Applying context optimization for ${sessionId}`);
 
+    this.applyTruncationStrategy(session);
+
+    // Update token metrics after optimization
+    return this.updateTokenMetrics(sessionId);
+  }
+
+  /**
+   * Switch the model (and optionally the provider) backing a live session.
+   * History is kept; token metrics and costs are recomputed against the new
+   * model, and the context is trimmed if it no longer fits the new window.
+   */
+  async switchModel(
+    sessionId: string,
+    options: ModelSwitchOptions
+  ): Promise<ChatSession> {
+    const session = this.getSession(sessionId);
+
+    if (!options.model) {
+      throw new ConfigurationError('A model is required to switch models');
+    }
+
+    const previousConfig = session.config;
+    const type = options.type || previousConfig.type;
+    const providerChanged = type !== previousConfig.type;
+    const newConfig: LLMConfig = {
+      ...previousConfig,
+      type,
+      model: options.model,
+      api_key: options.api_key || previousConfig.api_key,
+      // An endpoint override belongs to the old provider unless given again
+      base_url:
+        options.base_url ??
+        (providerChanged ? undefined : previousConfig.base_url),
+    };
+
+    // Create the provider first so an invalid type leaves the session intact
+    const provider = createProvider(newConfig);
+
+    console.log(
+      `[SESSION] Switching session ${sessionId} from ${previousConfig.type}/${previousConfig.model} to ${newConfig.type}/${newConfig.model}`
+    );
+
+    session.modelHistory = [
+      ...(session.modelHistory || []),
+      {
+        type: previousConfig.type,
+        model: previousConfig.model,
+        switchedAt: new Date(),
+      },
+    ];
+    session.config = newConfig;
+    this.providers.set(sessionId, provider);
+
+    // Recompute limits and costs for the new model
+    this.updateTokenMetrics(sessionId);
+
+    // Trim history if it doesn't fit comfortably in a smaller window
+    const shrunk =
+      getContextLimit(newConfig.model) < getContextLimit(previousConfig.model);
+    if (shrunk && session.isContextWindowCritical) {
+      console.log(
+        `[SESSION] New model has a smaller context window, trimming history`
+      );
+      this.applyTruncationStrategy(session);
+      this.updateTokenMetrics(sessionId);
+    }
+
+    this.updateSessionActivity(sessionId);
+    return session;
+  }
+
+  /**
+   * Truncate session history using the configured strategy
+   */
+  private applyTruncationStrategy(session: ChatSession): void {
+    if (!session.contextSettings) {
+      session.contextSettings = {
+        autoTruncate: false,
+        preserveSystemMessages: true,
+        preserveRecentMessages: 4,
+        truncationStrategy: 'oldest-first',
+      };
+    }
+
     // Select optimization strategy based on config
     if (session.contextSettings.truncationStrategy === 'selective') {
       // Use relevance-based pruning for selective strategy
@@ -977,9 +2777,6 @@ export class SessionManager {
       // Use traditional oldest-first truncation
       this.truncateOldestMessages(session);
     }
-
-    // Update token metrics after optimization
-    return this.updateTokenMetrics(sessionId);
   }
 
   /**
@@ -995,7 +2792,7 @@ export class SessionManager {
     );
     const maxTokens =
       session.contextSettings?.maxTokenLimit ||
-      this.getModelContextLimit(session.config.model);
+      getContextLimit(session.config.model);
 
     // Target 70% of max tokens to leave room for new messages
     const targetTokens = Math.floor(maxTokens * 0.7);
@@ -1025,7 +2822,9 @@ export class SessionManager {
   }
 
   /**
-   * Truncate oldest messages, preserving system messages and recent messages
+   * Truncate oldest messages, preserving system messages and recent messages.
+   * History is only cut where a user turn starts, so it still opens with a
+   * user message and no tool result outlives the tool call it answers.
    */
   private truncateOldestMessages(session: ChatSession): void {
     const { preserveSystemMessages, preserveRecentMessages } =
@@ -1042,8 +2841,17 @@ export class SessionManager {
     // Get non-system messages
     const nonSystemMessages = messages.filter(m => m.role !== 'system');
 
-    // Keep only the most recent N messages
-    const recentMessages = nonSystemMessages.slice(-preserveRecentMessages);
+    // Keep at least the most recent N messages, back to the start of the
+    // turn the oldest of them belongs to
+    let start = Math.max(nonSystemMessages.length - preserveRecentMessages, 0);
+    while (
+      start > 0 &&
+      start < nonSystemMessages.length &&
+      nonSystemMessages[start].role !== 'user'
+    ) {
+      start--;
+    }
+    const recentMessages = nonSystemMessages.slice(start);
 
     // Combine system messages with recent messages
     const newMessages = [...systemMessages, ...recentMessages];
@@ -1056,44 +2864,10 @@ export class SessionManager {
     session.messages = newMessages;
   }
 
-  /**
-   * Get the maximum context window size for a given model
-   * @param model The model identifier
-   * @returns Maximum context size in tokens
-   */
-  private getModelContextLimit(model: string): number {
-    // Add a conservative default for unknown models
-    const DEFAULT_LIMIT = 100000; // 100k tokens as a safe default
-
-    if (model.includes('claude-3-opus')) {
-      return 200000; // 200k tokens
-    } else if (
-      model.includes('claude-3-sonnet') ||
-      model.includes('claude-3-5-sonnet')
-    ) {
-      return 180000; // 180k tokens
-    } else if (model.includes('claude-3-haiku')) {
-      return 150000; // 150k tokens
-    } else if (
-      model.includes('claude-2') ||
-      model.includes('claude-2.0') ||
-      model.includes('claude-2.1')
-    ) {
-      return 100000; // 100k tokens
-    } else if (model.includes('claude-instant')) {
-      return 100000; // 100k tokens
-    } else {
-      // For all other models, use a conservative default
-      console.warn(
-        `[SESSION] Unknown model ${model}, using default context limit of ${DEFAULT_LIMIT} tokens`
-      );
-      return DEFAULT_LIMIT;
-    }
-  }
-
   /**
    * Restart a server for a session
-   * This is primarily used for recovering from server failures
+   * This is primarily used for recovering from server failures.
+   * A server shared with other sessions restarts for all of them.
    *
    * @param sessionId The ID of the session
    * @param serverName The name of the server to restart
@@ -1106,105 +2880,173 @@ export class SessionManager {
     const session = this.getSession(sessionId);
 
     // Get the server configuration from the session
-    const serverConfig = session.config.servers?.[serverName];
-    if (!serverConfig) {
+    if (!session.config.servers?.[serverName]) {
       throw new Error(`Server configuration not found for ${serverName}`);
     }
 
-    // Get the current client
-    const client = session.serverClients.get(serverName);
-    if (client) {
-      // Close the current client
+    // Each session using the server picks up the new connection through
+    // its pool member's onReconnect
+    await this.serverPool.restart(sessionId, serverName);
+
+    console.log(`[SESSION] Server ${serverName} restarted successfully`);
+  }
+
+  /**
+   * Handlers a session registers with the server pool for one of its servers
+   */
+  private serverPoolMember(
+    session: ChatSession,
+    serverName: string
+  ): ServerPoolMember {
+    return {
+      ...this.discoveryOptions(session, serverName),
+      onDisconnect: error => {
+        const client = session.serverClients.get(serverName);
+        if (client && error) {
+          this.disconnectErrors.set(client, error);
+        }
+        session.serverClients.delete(serverName);
+        this.emitServerStatus(session, {
+          server: serverName,
+          status: 'disconnected',
+          ...(error ? { error: error.message } : {}),
+        });
+      },
+      onRestarting: (attempt, delayMs) =>
+        this.emitServerStatus(session, {
+          server: serverName,
+          status: 'restarting',
+          attempt,
+          delayMs,
+        }),
+      onReconnect: connection => {
+        void this.reattachServer(session, serverName, connection);
+      },
+      onRestartFailed: error =>
+        this.emitServerStatus(session, {
+          server: serverName,
+          status: 'failed',
+          error: error.message,
+        }),
+      hasCallInFlight: () =>
+        this.callsInFlight.has(`${session.id}:${serverName}`),
+    };
+  }
+
+  private emitServerStatus(
+    session: ChatSession,
+    change: ServerStatusChange
+  ): void {
+    console.log(
+      `[SESSION] Server ${change.server} is ${change.status} for session ${session.id}`
+    );
+    this.emitSessionEvent({
+      type: 'server_status',
+      sessionId: session.id,
+      ...change,
+    });
+  }
+
+  /**
+   * Switch a session to a server's new connection after a restart or reconnect
+   */
+  private async reattachServer(
+    session: ChatSession,
+    serverName: string,
+    connection: ServerConnection
+  ): Promise<void> {
+    // Store client and capabilities
+    session.serverClients.set(serverName, connection.client);
+
+    this.setServerCapabilities(session, serverName, connection.capabilities);
+    this.emitCapabilitiesChanged(session, serverName);
+    this.emitServerStatus(session, { server: serverName, status: 'running' });
+
+    // Subscriptions belonged to the old connection
+    for (const subscription of session.resourceSubscriptions || []) {
+      if (subscription.server !== serverName) {
+        continue;
+      }
       try {
-        await client.close();
+        await connection.client.subscribeResource({ uri: subscription.uri });
       } catch (error) {
         console.error(
-          `[SESSION] Error closing client for ${serverName}:`,
+          `[SESSION] Error resubscribing to ${subscription.uri} on ${serverName}:`,
           error
         );
       }
-
-      // Remove the client
-      session.serverClients.delete(serverName);
     }
+  }
 
-    // Stop the existing server if it's still in the launcher
-    try {
-      // Get the current server process
-      const currentProcess = this.serverLauncher.getServerProcess(serverName);
-      if (currentProcess) {
-        // Manually clean up the process
-        try {
-          console.log(`[SESSION] Killing server process: ${serverName}`);
-          currentProcess.kill('SIGKILL');
-        } catch (error) {
-          console.error(`[SESSION] Error killing process: ${error}`);
-        }
+  /**
+   * Release a session's servers back to the pool, stopping those no other
+   * session uses
+   */
+  private async releaseServers(session: ChatSession): Promise<void> {
+    session.serverClients.clear();
+    for (const serverName of Object.keys(session.config.servers ?? {})) {
+      try {
+        await this.serverPool.release(session.id, serverName);
+      } catch (error) {
+        console.error(
+          `[SESSION] Error releasing server ${serverName} for session ${session.id}:`,
+          error
+        );
       }
-    } catch (error) {
-      console.error(`[SESSION] Error checking server process: ${error}`);
     }
+  }
 
-    // Force cleanup in the launcher using public method
-    this.serverLauncher.cleanup(serverName);
-
-    // Restart the server
-    const serverProcess = await this.serverLauncher.launchServer(
-      serverName,
-      serverConfig
-    );
-
-    // Discover capabilities
-    const result = await this.serverDiscovery.discoverCapabilities(
-      serverName,
-      serverProcess
-    );
+  /**
+   * Close a session: stop its turn in progress, deny its tool calls waiting
+   * for approval and release its servers. Shared servers keep running while
+   * other sessions use them.
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.getSession(sessionId);
+    console.log(`[SESSION] Closing session ${sessionId}`);
 
-    // Store client and capabilities
-    session.serverClients.set(serverName, result.client);
+    this.activeTurns.get(sessionId)?.abort();
+    this.activeTurns.delete(sessionId);
 
-    // Update tools - remove existing tools from this server and add new ones
-    const existingTools = new Set(session.tools.map(tool => tool.name));
-    result.capabilities.tools.forEach(tool => {
-      if (!existingTools.has(tool.name)) {
-        session.tools.push(tool);
+    for (const [callId, pending] of this.pendingApprovals.entries()) {
+      if (pending.request.sessionId === sessionId) {
+        this.pendingApprovals.delete(callId);
+        pending.resolve({ approved: false, reason: 'Session closed' });
       }
-    });
+    }
 
-    console.log(`[SESSION] Server ${serverName} restarted successfully`);
+    globalSessions.delete(sessionId);
+    this.providers.delete(sessionId);
+    await this.releaseServers(session);
+    console.log(`[SESSION] Closed session ${sessionId}`);
   }
 
   /**
    * Clean up all sessions and resources
    * This method:
-   * 1. Closes all client connections to release transport resources
-   * 2. Stops all server processes
+   * 1. Stops turns in progress and denies tool calls waiting for approval
+   * 2. Closes every server connection and stops all server processes,
+   *    including servers shared between sessions
    * 3. Clears the session store
    */
   async cleanup() {
     console.log('[SESSION] Starting cleanup...');
 
-    // Close all connections
-    for (const [sessionId, session] of globalSessions.entries()) {
-      console.log(`[SESSION] Closing connections for session ${sessionId}`);
-      for (const [serverName, client] of session.serverClients.entries()) {
-        if (client && typeof client.close === 'function') {
-          try {
-            client.close();
-            console.log(`[SESSION] Closed client for ${serverName}`);
-          } catch (error) {
-            console.error(
-              `[SESSION] Error closing client for ${serverName}:`,
-              error
-            );
-          }
-        }
-      }
+    // Stop turns in progress
+    for (const turn of this.activeTurns.values()) {
+      turn.abort();
+    }
+    this.activeTurns.clear();
+
+    // Deny tool calls still waiting for approval so their turns can finish
+    for (const [callId, pending] of this.pendingApprovals.entries()) {
+      this.pendingApprovals.delete(callId);
+      pending.resolve({ approved: false, reason: 'Session closed' });
     }
 
     // Stop all server processes
     console.log('[SESSION] Stopping all server processes');
-    await this.serverLauncher.stopAll();
+    await this.serverPool.releaseAll();
 
     // Clear all sessions
     console.log('[SESSION] Clearing session store');
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { StreamAccumulator } from './stream-accumulator';
+import { LLMError } from './types';
+
+describe('StreamAccumulator', () => {
+  it('should rebuild text, thinking and tool_use blocks in order', () => {
+    const accumulator = new StreamAccumulator();
+    accumulator.add({ type: 'thinking', content: 'Need to ' });
+    accumulator.add({ type: 'thinking', content: 'look' });
+    accumulator.add({ type: 'thinking_signature', signature: 'sig' });
+    accumulator.add({ type: 'content', content: 'Let me ' });
+    accumulator.add({ type: 'content', content: 'check.' });
+    accumulator.add({
+      type: 'tool_start',
+      toolCall: { id: 'toolu_1', name: 'read_file' },
+    });
+    accumulator.add({ type: 'tool_delta', partialJson: '{"path":' });
+    accumulator.add({ type: 'tool_delta', partialJson: '"a.txt"}' });
+    accumulator.add({ type: 'stop', stopReason: 'tool_use' });
+
+    expect(accumulator.text).toBe('Let me check.');
+    expect(accumulator.stopReason).toBe('tool_use');
+    expect(accumulator.getBlocks()).toEqual([
+      { type: 'thinking', thinking: 'Need to look', signature: 'sig' },
+      { type: 'text', text: 'Let me check.' },
+      {
+        type: 'tool_use',
+        id: 'toolu_1',
+        name: 'read_file',
+        input: { path: 'a.txt' },
+      },
+    ]);
+  });
+
+  it('should route deltas by ID when several tool calls are streamed', () => {
+    const accumulator = new StreamAccumulator();
+    accumulator.add({
+      type: 'tool_start',
+      toolCall: { id: 'call_1', name: 'read_file' },
+    });
+    accumulator.add({
+      type: 'tool_start',
+      toolCall: { id: 'call_2', name: 'read_file' },
+    });
+    accumulator.add({ type: 'tool_delta', id: 'call_1', partialJson: '{}' });
+    accumulator.add({
+      type: 'tool_delta',
+      id: 'call_2',
+      partialJson: '{"path":"b.txt"}',
+    });
+
+    expect(accumulator.getToolCalls()).toEqual([
+      { id: 'call_1', name: 'read_file', parameters: {} },
+      { id: 'call_2', name: 'read_file', parameters: { path: 'b.txt' } },
+    ]);
+  });
+
+  it('should reject malformed tool arguments', () => {
+    const accumulator = new StreamAccumulator();
+    accumulator.add({
+      type: 'tool_start',
+      toolCall: { id: 'toolu_1', name: 'read_file' },
+    });
+    accumulator.add({ type: 'tool_delta', partialJson: '{"path":' });
+
+    expect(() => accumulator.getToolCalls()).toThrow(LLMError);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Stream accumulator.
+ * Rebuilds a complete assistant reply from provider stream events so the
+ * streamed turn can be stored in history and its tool calls executed.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { ContentBlock, LLMError, ToolCall, ToolUseBlock } from './types';
+import { LLMStreamEvent } from './providers/types';
+
+export class StreamAccumulator {
+  private blocks: ContentBlock[] = [];
+  // Raw JSON argument fragments for each tool_use block, keyed by block ID
+  private toolInputJson: Map<string, string> = new Map();
+  stopReason?: string;
+
+  /**
+   * Record a single provider stream event
+   */
+  add(event: LLMStreamEvent): void {
+    const last = this.blocks[this.blocks.length - 1];
+
+    switch (event.type) {
+      case 'content':
+        if (last?.type === 'text') {
+          last.text += event.content;
+        } else {
+          this.blocks.push({ type: 'text', text: event.content });
+        }
+        break;
+      case 'thinking':
+        if (last?.type === 'thinking') {
+          last.thinking += event.content;
+        } else {
+          this.blocks.push({ type: 'thinking', thinking: event.content });
+        }
+        break;
+      case 'thinking_signature': {
+        const thinking = [...this.blocks]
+          .reverse()
+          .find(block => block.type === 'thinking');
+        if (thinking?.type === 'thinking') {
+          thinking.signature = (thinking.signature || '') + event.signature;
+        }
+        break;
+      }
+      case 'redacted_thinking':
+        this.blocks.push({ type: 'redacted_thinking', data: event.data });
+        break;
+      case 'tool_start': {
+        const id = event.toolCall.id || uuidv4();
+        this.blocks.push({
+          type: 'tool_use',
+          id,
+          name: event.toolCall.name,
+          input: {},
+        });
+        this.toolInputJson.set(id, '');
+        break;
+      }
+      case 'tool_delta': {
+        // Deltas without an ID belong to the most recently started tool call
+        const toolUse = event.id
+          ? this.toolUseBlocks().find(block => block.id === event.id)
+          : this.toolUseBlocks().pop();
+        if (toolUse) {
+          this.toolInputJson.set(
+            toolUse.id,
+            (this.toolInputJson.get(toolUse.id) || '') + event.partialJson
+          );
+        }
+        break;
+      }
+      case 'stop':
+        this.stopReason = event.stopReason;
+        break;
+    }
+  }
+
+  /**
+   * Whether any content has been received yet
+   */
+  get isEmpty(): boolean {
+    return this.blocks.length === 0;
+  }
+
+  /**
+   * Concatenated text of the reply
+   */
+  get text(): string {
+    return this.blocks
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+  }
+
+  /**
+   * Structured content of the reply, with tool arguments parsed
+   */
+  getBlocks(): ContentBlock[] {
+    for (const toolUse of this.toolUseBlocks()) {
+      toolUse.input = this.parseToolInput(toolUse);
+    }
+    return this.blocks;
+  }
+
+  /**
+   * Tool calls requested in the reply, in the order they were streamed
+   */
+  getToolCalls(): ToolCall[] {
+    return this.getBlocks()
+      .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+      .map(toolUse => ({
+        id: toolUse.id,
+        name: toolUse.name,
+        parameters: toolUse.input,
+      }));
+  }
+
+  private toolUseBlocks(): ToolUseBlock[] {
+    return this.blocks.filter(
+      (block): block is ToolUseBlock => block.type === 'tool_use'
+    );
+  }
+
+  private parseToolInput(toolUse: ToolUseBlock): Record<string, unknown> {
+    const json = this.toolInputJson.get(toolUse.id);
+    if (!json) {
+      return toolUse.input;
+    }
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      console.error('[STREAM] Failed to parse tool arguments:', json);
+      throw new LLMError('Invalid tool parameters format');
+    }
+  }
+}
@@ -48,7 +48,8 @@ vi.mock('../server/launcher', () => ({
   }))
 }));
 
-vi.mock('../server/discovery', () => ({
+vi.mock('../server/discovery', async importOriginal => ({
+  ...(await importOriginal<typeof import('../server/discovery')>()),
   ServerDiscovery: vi.fn().mockImplementation(() => ({
     discoverCapabilities: vi.fn().mockResolvedValue({
       client: {
@@ -158,13 +159,20 @@ describe('Stream Integration Tests', () => {
       { type: 'content_block_start', content_block: { type: 'text', text: '' } },
       { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Let me check ' } },
       { type: 'content_block_delta', delta: { type: 'text_delta', text: 'what files are in your directory.' } },
-      { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tool_1', name: 'list_files', input: { path: '/home/user' } } },
-      { type: 'content_block_delta', delta: { type: 'tool_use_delta', id: 'tool_1', input: { path: '/home/user' } } },
-      { type: 'message_delta', usage: { input_tokens: 100, output_tokens: 150 } }
+      { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tool_1', name: 'list_files', input: {} } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"path": ' } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '"/home/user"}' } },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { input_tokens: 100, output_tokens: 150 } }
+    ];
+    const followUpChunks = [
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'You have two files.' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } }
     ];
     
-    // Mock the stream response
-    mockCreate.mockResolvedValueOnce(createAsyncIterator(streamChunks));
+    // Mock the stream responses before and after the tool runs
+    mockCreate
+      .mockResolvedValueOnce(createAsyncIterator(streamChunks))
+      .mockResolvedValueOnce(createAsyncIterator(followUpChunks));
     
     // Create test config
     const config: LLMConfig = {
@@ -193,16 +201,112 @@ describe('Stream Integration Tests', () => {
       collectedChunks.push(chunk);
     }
     
-    // Verify content chunks were received
+    // Verify content chunks were received from both turns
     const contentChunks = collectedChunks.filter(chunk => chunk.type === 'content');
-    expect(contentChunks.length).toBe(2);
+    expect(contentChunks.length).toBe(3);
+    expect(contentChunks[2].content).toBe('You have two files.');
     
     // Verify tool start event was received
     const toolChunks = collectedChunks.filter(chunk => chunk.type === 'tool_start');
     expect(toolChunks.length).toBe(1);
     expect(toolChunks[0].content).toContain('list_files');
+
+    // Verify the tool ran with the streamed arguments and its result was emitted
+    const client = session.serverClients.get('test_server')!;
+    expect(client.callTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'list_files', arguments: { path: '/home/user' } }),
+      undefined,
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    const resultChunks = collectedChunks.filter(chunk => chunk.type === 'tool_result');
+    expect(resultChunks).toEqual([{ type: 'tool_result', content: '["file1.txt","file2.txt"]' }]);
+
+    // Verify the follow-up request answers the tool_use with a tool_result
+    const followUpMessages = mockCreate.mock.calls[1][0].messages;
+    expect(followUpMessages[followUpMessages.length - 1]).toEqual({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'tool_1', content: '["file1.txt","file2.txt"]' }]
+    });
+
+    // Verify the exchange was persisted to history
+    expect(session.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'assistant', 'assistant']);
+    expect(session.messages[2].toolCalls).toEqual([
+      { id: 'tool_1', name: 'list_files', parameters: { path: '/home/user' } }
+    ]);
+    expect(session.messages[4].content).toBe('You have two files.');
     
     // Verify done message is sent
     expect(collectedChunks[collectedChunks.length-1].type).toBe('done');
   });
+
+  it('should hold tool calls for approval and run them with edited arguments', async () => {
+    const streamChunks = [
+      { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tool_1', name: 'list_files', input: {} } },
+      { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"path": "/"}' } },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 10 } }
+    ];
+    const followUpChunks = [
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'You have two files.' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } }
+    ];
+    mockCreate
+      .mockResolvedValueOnce(createAsyncIterator(streamChunks))
+      .mockResolvedValueOnce(createAsyncIterator(followUpChunks));
+
+    const config: LLMConfig = {
+      type: 'claude',
+      api_key: 'test-api-key',
+      model: 'claude-3-5-sonnet-20250219',
+      system_prompt: 'You are a helpful assistant with access to tools.',
+      servers: {
+        test_server: {
+          command: 'test',
+          args: ['--flag'],
+          env: {},
+          requires_approval: ['list_files']
+        }
+      }
+    };
+    const session = await sessionManager.initializeSession(config);
+    const client = session.serverClients.get('test_server')!;
+
+    const collectedChunks: any[] = [];
+    for await (const chunk of sessionManager.sendMessageStream(session.id, 'List files')) {
+      collectedChunks.push(chunk);
+      if (chunk.type === 'approval_required') {
+        // The tool must not run before the host answers
+        expect(client.callTool).not.toHaveBeenCalled();
+        expect(sessionManager.getPendingToolApprovals(session.id)).toHaveLength(1);
+        sessionManager.resolveToolApproval(session.id, chunk.approval!.callId, {
+          approved: true,
+          arguments: { path: '/home/user' }
+        });
+      }
+    }
+
+    expect(collectedChunks.filter(chunk => chunk.type === 'approval_required')).toEqual([
+      {
+        type: 'approval_required',
+        approval: {
+          sessionId: session.id,
+          callId: 'tool_1',
+          toolName: 'list_files',
+          server: 'test_server',
+          arguments: { path: '/' }
+        }
+      }
+    ]);
+    expect(client.callTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'list_files', arguments: { path: '/home/user' } }),
+      undefined,
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(sessionManager.getPendingToolApprovals(session.id)).toEqual([]);
+
+    // History records the arguments the tool actually ran with
+    expect(session.messages[2].blocks).toEqual([
+      { type: 'tool_use', id: 'tool_1', name: 'list_files', input: { path: '/home/user' } }
+    ]);
+    expect(collectedChunks[collectedChunks.length-1].type).toBe('done');
+  });
 });
\ No newline at end of file
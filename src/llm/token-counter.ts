@@ -44,6 +44,30 @@ const MODEL_CAPABILITIES: Record<string, ModelCapability> = {
     supportsThinking: true,
     inputCostPer1K: 0.02,
     outputCostPer1K: 0.1
+  },
+  'gpt-4o': {
+    contextLimit: 128000,
+    supportsThinking: false,
+    inputCostPer1K: 0.0025,
+    outputCostPer1K: 0.01
+  },
+  'gpt-4o-mini': {
+    contextLimit: 128000,
+    supportsThinking: false,
+    inputCostPer1K: 0.00015,
+    outputCostPer1K: 0.0006
+  },
+  'gpt-4-turbo': {
+    contextLimit: 128000,
+    supportsThinking: false,
+    inputCostPer1K: 0.01,
+    outputCostPer1K: 0.03
+  },
+  'gpt-3.5-turbo': {
+    contextLimit: 16385,
+    supportsThinking: false,
+    inputCostPer1K: 0.0005,
+    outputCostPer1K: 0.0015
   }
 };
 
@@ -64,6 +88,12 @@ export function getModelFamily(modelName: string): string {
   if (legacyMatch) {
     return legacyMatch[0].toLowerCase();
   }
+
+  // OpenAI models, e.g. "gpt-4o-2024-08-06" -> "gpt-4o"
+  const gptMatch = modelName.match(/gpt-(4o-mini|4o|4-turbo|3\.5-turbo)/i);
+  if (gptMatch) {
+    return gptMatch[0].toLowerCase();
+  }
   
   // Return original if no match found
   return modelName.toLowerCase();
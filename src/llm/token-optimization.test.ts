@@ -22,7 +22,8 @@ vi.mock('@anthropic-ai/sdk', () => {
 });
 
 // Mock server dependencies
-vi.mock('../../src/server/discovery', () => ({
+vi.mock('../../src/server/discovery', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../src/server/discovery')>()),
   ServerDiscovery: vi.fn().mockImplementation(() => ({
     discoverCapabilities: vi.fn().mockResolvedValue({
       client: { callTool: vi.fn() },
@@ -173,7 +174,10 @@ describe('Token Optimization Features', () => {
 
       // Verify behavior
       expect(messagesAfter).toBeLessThan(messageBefore);
-      expect(messagesAfter).toBe(4); // System + 3 recent (from settings)
+      // System + the 3 recent messages (from settings), back to the start
+      // of their oldest turn
+      expect(messagesAfter).toBe(5);
+      expect(session.messages[1].role).toBe('user');
       expect(session.messages[0].role).toBe('system');
       expect(optimizedMetrics.totalTokens).toBeLessThan(messageBefore * 10);
     });
@@ -31,15 +31,16 @@ vi.mock('../server/launcher', () => ({
   }))
 }));
 
-vi.mock('../server/discovery', () => ({
+vi.mock('../server/discovery', async importOriginal => ({
+  ...(await importOriginal<typeof import('../server/discovery')>()),
   ServerDiscovery: vi.fn().mockImplementation(() => ({
     discoverCapabilities: vi.fn().mockResolvedValue({
       client: {
-        callTool: vi.fn().mockImplementation(async ({ name, parameters }) => {
+        callTool: vi.fn().mockImplementation(async ({ name, arguments: args }) => {
           if (name === 'list_files') {
             return ['file1.txt', 'file2.txt', 'directory1'];
           } else if (name === 'read_file') {
-            return 'Content of ' + parameters.path;
+            return 'Content of ' + args.path;
           }
           return 'Unknown tool result';
         }),
@@ -155,10 +156,61 @@ describe('Tool Integration', () => {
     const createCalls = mockCreate.mock.calls;
     expect(createCalls.length).toBe(2);
     
-    // First call should include the user message, second call should include the tool result
+    // Second call should replay the tool_use block and answer it with a tool_result
     const secondCallMessages = createCalls[1][0].messages;
-    const toolResultMsg = secondCallMessages.find((msg: any) => msg.content.includes('["file1.txt","file2.txt","directory1"]'));
-    expect(toolResultMsg).toBeDefined();
+    expect(secondCallMessages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'tool_use', id: 'tool_1', name: 'list_files', input: { path: '/home/user' } },
+        { type: 'text', text: 'I need to check what files are in your directory.' }
+      ]
+    });
+    expect(secondCallMessages[2]).toEqual({
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'tool_1',
+          content: '["file1.txt","file2.txt","directory1"]'
+        }
+      ]
+    });
+  });
+
+  it('should replay MCP tool errors as error tool_result blocks', async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [
+        { type: 'tool_use', id: 'tool_1', name: 'read_file', input: { path: '/missing' } }
+      ]
+    });
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'That file does not exist.' }]
+    });
+
+    const config: LLMConfig = {
+      type: 'claude',
+      api_key: 'test-api-key',
+      model: 'claude-3-sonnet-20240229',
+      system_prompt: 'You are a helpful assistant with access to tools.',
+      servers: {
+        test_server: { command: 'test', args: [], env: {} }
+      }
+    };
+
+    const session = await sessionManager.initializeSession(config);
+    const client = session.serverClients.get('test_server')!;
+    vi.mocked(client.callTool).mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'ENOENT: /missing' }],
+      isError: true
+    });
+
+    await sessionManager.sendMessage(session.id, 'Read /missing');
+
+    const toolResult = session.messages.find((msg: ChatMessage) => msg.isToolResult);
+    expect(toolResult?.content).toBe('ENOENT: /missing');
+    expect(mockCreate.mock.calls[1][0].messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'tool_1', content: 'ENOENT: /missing', is_error: true }
+    ]);
   });
   
   it('should handle legacy tool call format', async () => {
@@ -4,22 +4,67 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 // Simple type definitions matching the SDK's structure
 export interface MCPTool {
   name: string;
+  server?: string; // Name of the MCP server that provides this tool
   description?: string;
   inputSchema?: {
     type: 'object';
     properties: Record<string, any>;
     required?: string[];
+    [keyword: string]: unknown; // Any other JSON Schema keywords the server declares
   };
 }
 
 export interface MCPResource {
   name: string;
+  server?: string; // Name of the MCP server that provides this resource
   type?: string;
   description?: string;
   uri?: string;
   mimeType?: string;
 }
 
+export interface MCPPrompt {
+  name: string;
+  server?: string; // Name of the MCP server that provides this prompt
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Directory a session offers to its servers through MCP roots
+ */
+export interface MCPRoot {
+  uri: string; // file:// URI
+  name?: string;
+}
+
+/**
+ * A resource the session receives update notifications for
+ */
+export interface ResourceSubscription {
+  uri: string;
+  server: string;
+  // Pinned resources are re-attached to the next user message after a change
+  pinned: boolean;
+  changed?: boolean; // Updated since the contents were last attached
+}
+
+/**
+ * Contents of a resource returned by MCP resources/read
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string; // Set for text resources
+  blob?: string; // Base64-encoded data, set for binary resources
+}
+
 /**
  * Token metrics for tracking token usage in a session
  */
@@ -28,6 +73,7 @@ export interface TokenMetrics {
   assistantTokens: number;
   systemTokens: number;
   toolTokens: number;
+  samplingTokens?: number; // Spent on server sampling requests, outside the context window
   totalTokens: number;
   maxContextTokens: number;
   percentUsed: number;
@@ -84,26 +130,251 @@ export interface ChatSession {
   maxToolCalls: number;
   tools: MCPTool[];
   resources: MCPResource[];
+  prompts: MCPPrompt[];
+  roots: MCPRoot[];
+  resourceSubscriptions?: ResourceSubscription[];
   // Enhanced token tracking fields
   tokenMetrics?: TokenMetrics;
   tokenCost?: TokenCost;
   contextSettings?: ContextSettings;
   isContextWindowCritical?: boolean;
+  // Models previously used in this session, oldest first
+  modelHistory?: ModelHistoryEntry[];
+  // Completions servers requested through MCP sampling
+  samplingUsage?: SamplingUsage;
+}
+
+/**
+ * Running totals for sampling requests made by a session's servers
+ */
+export interface SamplingUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Record of a model that backed a session before a switch
+ */
+export interface ModelHistoryEntry {
+  type: string;
+  model: string;
+  switchedAt: Date;
+}
+
+/**
+ * Options for switching the model backing a live session
+ * Omitted fields keep the session's current values
+ */
+export interface ModelSwitchOptions {
+  model: string;
+  type?: string;
+  api_key?: string;
+  base_url?: string;
+}
+
+/**
+ * Per-call options for sendMessage and sendMessageStream
+ */
+export interface SendMessageOptions {
+  signal?: AbortSignal; // Aborts the turn, including LLM requests and tool calls
+  resources?: string[]; // URIs of resources to attach to the user message
 }
 
 export interface ToolCall {
+  id?: string; // Provider-assigned tool call ID, when available
   name: string;
   parameters: Record<string, unknown>;
+  invalidArguments?: string; // Why the provider couldn't parse the arguments
+}
+
+/**
+ * A tool call held back until the host approves, denies or edits it
+ */
+export interface ToolApprovalRequest {
+  sessionId: string;
+  callId: string; // Tool call ID, used to answer the request
+  toolName: string;
+  server?: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Host decision on a tool call. An approval may replace the arguments the
+ * model asked for; a denial is reported to the model as an error result.
+ */
+export type ToolApprovalDecision =
+  | { approved: true; arguments?: Record<string, unknown> }
+  | { approved: false; reason?: string };
+
+export type ToolApprovalHandler = (
+  request: ToolApprovalRequest
+) => ToolApprovalDecision | Promise<ToolApprovalDecision>;
+
+/**
+ * A server's request for a completion through MCP sampling/createMessage
+ */
+export interface SamplingRequest {
+  sessionId: string;
+  server: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  systemPrompt?: string;
+  maxTokens: number;
+  usage: SamplingUsage; // Sampling done for the session so far
+}
+
+/**
+ * Host decision on a sampling request. An approval may lower the token
+ * limit; a denial is returned to the server as an error.
+ */
+export type SamplingDecision =
+  { approved: true; maxTokens?: number } | { approved: false; reason?: string };
+
+export type SamplingPolicy = (
+  request: SamplingRequest
+) => SamplingDecision | Promise<SamplingDecision>;
+
+/**
+ * Change to a session that hosts may want to reflect in their UI
+ */
+export type SessionEvent =
+  | {
+      type: 'capabilities_changed';
+      sessionId: string;
+      server: string;
+      // The server's current lists, replacing what it exposed before
+      tools: MCPTool[];
+      resources: MCPResource[];
+      prompts: MCPPrompt[];
+    }
+  | {
+      type: 'resource_updated';
+      sessionId: string;
+      server: string;
+      uri: string;
+    }
+  | ({ type: 'tool_progress'; sessionId: string } & ToolProgress)
+  | ({ type: 'server_log'; sessionId: string } & ServerLogMessage)
+  | ({ type: 'server_status'; sessionId: string } & ServerStatusChange)
+  | ({ type: 'approval_required' } & ToolApprovalRequest);
+
+/**
+ * State of a session's server as it goes down and is restarted:
+ * - disconnected: the server exited, its connection dropped, or it is being
+ *   restarted on request
+ * - restarting: a restart attempt is scheduled
+ * - running: the server is back and its capabilities were listed again
+ * - failed: every restart attempt failed
+ */
+export type ServerStatus = 'disconnected' | 'restarting' | 'running' | 'failed';
+
+export interface ServerStatusChange {
+  server: string;
+  status: ServerStatus;
+  attempt?: number; // Restart attempt number, starting at 1
+  delayMs?: number; // Delay before the restart attempt starts
+  error?: string; // Why the server went down, or why restarting failed
+}
+
+/**
+ * Progress reported by a server for a running tool call
+ */
+export interface ToolProgress {
+  callId?: string; // Tool call ID, when the call came from the model
+  toolName: string;
+  server: string;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ServerLogLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+/**
+ * Log message a server sent through MCP notifications/message
+ */
+export interface ServerLogMessage {
+  server: string;
+  level: ServerLogLevel;
+  logger?: string;
+  data: unknown;
+}
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+/**
+ * Structured message content, replayed to providers block by block so tool
+ * calls and their results stay paired by ID across turns
+ */
+export type ContentBlock =
+  | TextBlock
+  | ToolUseBlock
+  | ToolResultBlock
+  | ThinkingBlock
+  | RedactedThinkingBlock;
+
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  toolUseId: string; // ID of the tool_use block this result answers
+  content: string;
+  isError?: boolean;
+}
+
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature?: string; // Required by Anthropic when replaying thinking
+}
+
+export interface RedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
 }
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string; // Plain-text view of the message
+  blocks?: ContentBlock[]; // Structured content, replayed in place of content
   hasToolCall?: boolean;
-  toolCall?: ToolCall;
+  toolCall?: ToolCall; // First tool call, kept for single-call consumers
+  toolCalls?: ToolCall[]; // Every tool call requested in this turn
   isToolResult?: boolean;
+  attachments?: string[]; // URIs of resources attached to a user message
   tokens?: number; // Track tokens per message
   timestamp?: Date; // When message was created
+  provider?: string; // Provider type that produced this message
+  model?: string; // Model that produced this message
+  fallbacks?: FallbackAttempt[]; // Models that failed before this one answered
+}
+
+/**
+ * A model that failed and was skipped in favour of the next fallback
+ */
+export interface FallbackAttempt {
+  type: string;
+  model: string;
+  error: string;
+  status?: number;
 }
 
 export class LLMError extends Error {
@@ -113,6 +384,27 @@ export class LLMError extends Error {
   }
 }
 
+/**
+ * Thrown when a turn is stopped through its AbortSignal or cancel()
+ */
+export class LLMCancelledError extends LLMError {
+  constructor(message: string = 'Request cancelled') {
+    super(message);
+    this.name = 'LLMCancelledError';
+  }
+}
+
+export class LLMProviderError extends LLMError {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
 /**
  * Token threshold alert
  */
@@ -1,17 +1,27 @@
 import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
-import { ServerDiscovery, ServerState } from './discovery';
+import { DiscoveryError, ServerDiscovery, ServerState } from './discovery';
 import { ChildProcess } from 'child_process';
 import { MCPTool } from '../llm/types';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ChildProcessTransport } from './transport';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 
 // Mock transport and client
-vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
-  StdioClientTransport: vi.fn().mockImplementation(() => ({
+vi.mock('./transport', () => ({
+  ChildProcessTransport: vi.fn().mockImplementation(() => ({
     close: vi.fn().mockResolvedValue(undefined)
   })),
 }));
 
+vi.mock('@modelcontextprotocol/sdk/client/sse.js', () => ({
+  SSEClientTransport: vi.fn().mockImplementation(() => ({})),
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/streamableHttp.js', () => ({
+  StreamableHTTPClientTransport: vi.fn().mockImplementation(() => ({})),
+}));
+
 vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
   Client: vi.fn().mockImplementation(() => ({
     connect: vi.fn().mockResolvedValue(undefined),
@@ -25,6 +35,7 @@ describe('ServerDiscovery', () => {
   let mockProcess: ChildProcess;
   let mockTools: MCPTool[];
   let mockResources: any[];
+  let mockPrompts: any[];
   let mockClient: any;
 
   beforeEach(() => {
@@ -55,13 +66,20 @@ describe('ServerDiscovery', () => {
       description: 'A test resource'
     }];
 
+    mockPrompts = [{
+      name: 'review-code',
+      description: 'Review a file',
+      arguments: [{ name: 'path', description: 'File to review', required: true }]
+    }];
+
     mockClient = {
       connect: vi.fn().mockResolvedValue(undefined),
       listTools: vi.fn().mockResolvedValue({ tools: mockTools }),
-      listResources: vi.fn().mockResolvedValue({ resources: mockResources })
+      listResources: vi.fn().mockResolvedValue({ resources: mockResources }),
+      listPrompts: vi.fn().mockResolvedValue({ prompts: mockPrompts })
     };
 
-    (StdioClientTransport as Mock).mockImplementation(() => ({}));
+    (ChildProcessTransport as Mock).mockImplementation(() => ({}));
     (Client as Mock).mockImplementation(() => mockClient);
   });
 
@@ -72,20 +90,22 @@ describe('ServerDiscovery', () => {
         mockProcess
       );
 
-      expect(StdioClientTransport).toHaveBeenCalledWith({
-        command: mockProcess.spawnfile,
-        args: mockProcess.spawnargs?.slice(1) || []
-      });
+      // The client talks to the launched process instead of spawning another
+      expect(ChildProcessTransport).toHaveBeenCalledWith(mockProcess);
 
       expect(Client).toHaveBeenCalled();
-      expect(mockClient.connect).toHaveBeenCalled();
+      expect(mockClient.connect).toHaveBeenCalledWith(
+        (ChildProcessTransport as Mock).mock.results[0].value
+      );
       expect(mockClient.listTools).toHaveBeenCalled();
       expect(mockClient.listResources).toHaveBeenCalled();
+      expect(mockClient.listPrompts).toHaveBeenCalled();
 
       expect(result.client).toBe(mockClient);
       expect(result.capabilities).toEqual({
         tools: mockTools,
         resources: mockResources,
+        prompts: mockPrompts,
       });
     });
 
@@ -142,13 +162,196 @@ describe('ServerDiscovery', () => {
       expect(stateTransitions).toContain(ServerState.Error);
     });
 
-    it('should throw error when no capabilities are discovered', async () => {
+    it('should continue without prompts when the server does not support them', async () => {
+      mockClient.listPrompts.mockRejectedValue(
+        new Error('Server does not support prompts (required for prompts/list)')
+      );
+
+      const result = await discovery.discoverCapabilities('test', mockProcess);
+
+      expect(result.capabilities.tools).toEqual(mockTools);
+      expect(result.capabilities.prompts).toEqual([]);
+    });
+
+    it('should register a sampling handler when one is provided', async () => {
+      mockClient.setRequestHandler = vi.fn();
+      const onSamplingRequest = vi.fn().mockResolvedValue({
+        model: 'test-model',
+        role: 'assistant',
+        content: { type: 'text', text: 'Done' },
+      });
+
+      await discovery.discoverCapabilities('test', mockProcess, {
+        onSamplingRequest,
+      });
+
+      expect(Client).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          capabilities: expect.objectContaining({ sampling: {} }),
+        })
+      );
+      const handler = mockClient.setRequestHandler.mock.calls[0][1];
+      const signal = new AbortController().signal;
+      const params = { messages: [], maxTokens: 10 };
+      await handler({ method: 'sampling/createMessage', params }, { signal });
+      expect(onSamplingRequest).toHaveBeenCalledWith(params, signal);
+    });
+
+    it('should report list_changed notifications when a handler is provided', async () => {
+      mockClient.setNotificationHandler = vi.fn();
+      const onListChanged = vi.fn();
+
+      await discovery.discoverCapabilities('test', mockProcess, {
+        onListChanged,
+      });
+
+      const methods = mockClient.setNotificationHandler.mock.calls.map(
+        ([schema, handler]: [any, () => void]) => {
+          handler();
+          return schema.shape.method.value;
+        }
+      );
+      expect(methods).toEqual([
+        'notifications/tools/list_changed',
+        'notifications/resources/list_changed',
+        'notifications/prompts/list_changed',
+      ]);
+      expect(onListChanged.mock.calls).toEqual([
+        ['tools'],
+        ['resources'],
+        ['prompts'],
+      ]);
+    });
+
+    it('should report resource updates when a handler is provided', async () => {
+      mockClient.setNotificationHandler = vi.fn();
+      const onResourceUpdated = vi.fn();
+
+      await discovery.discoverCapabilities('test', mockProcess, {
+        onResourceUpdated,
+      });
+
+      const [schema, handler] = mockClient.setNotificationHandler.mock.calls[0];
+      expect(schema.shape.method.value).toBe('notifications/resources/updated');
+      handler({
+        method: 'notifications/resources/updated',
+        params: { uri: 'file:///logs/build.log' },
+      });
+      expect(onResourceUpdated).toHaveBeenCalledWith('file:///logs/build.log');
+    });
+
+    it('should forward server log messages when a handler is provided', async () => {
+      mockClient.setNotificationHandler = vi.fn();
+      const onLogMessage = vi.fn();
+
+      await discovery.discoverCapabilities('test', mockProcess, {
+        onLogMessage,
+      });
+
+      const [schema, handler] = mockClient.setNotificationHandler.mock.calls[0];
+      expect(schema.shape.method.value).toBe('notifications/message');
+      handler({
+        method: 'notifications/message',
+        params: { level: 'warning', logger: 'db', data: 'Slow query' },
+      });
+      expect(onLogMessage).toHaveBeenCalledWith({
+        level: 'warning',
+        logger: 'db',
+        data: 'Slow query',
+      });
+    });
+
+    it('should answer roots/list when a handler is provided', async () => {
+      mockClient.setRequestHandler = vi.fn();
+      const roots = [{ uri: 'file:///workspace', name: 'workspace' }];
+
+      await discovery.discoverCapabilities('test', mockProcess, {
+        onListRoots: () => roots,
+      });
+
+      expect(Client).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          capabilities: expect.objectContaining({
+            roots: { listChanged: true },
+          }),
+        })
+      );
+      const [schema, handler] = mockClient.setRequestHandler.mock.calls[0];
+      expect(schema.shape.method.value).toBe('roots/list');
+      expect(handler({ method: 'roots/list' })).toEqual({ roots });
+    });
+
+    it('should list capabilities of a connected server', async () => {
       mockClient.listTools.mockResolvedValue({ tools: [] });
-      mockClient.listResources.mockResolvedValue({ resources: [] });
+
+      const capabilities = await discovery.listCapabilities('test', mockClient);
+
+      expect(capabilities).toEqual({
+        tools: [],
+        resources: mockResources,
+        prompts: mockPrompts,
+      });
+    });
+
+    it('should connect to an http server without launching it', async () => {
+      const result = await discovery.discoverRemoteCapabilities('search', {
+        transport: 'http',
+        url: 'https://mcp.example.com/mcp',
+        headers: { Authorization: 'Bearer token' },
+      });
+
+      expect(ChildProcessTransport).not.toHaveBeenCalled();
+      expect(StreamableHTTPClientTransport).toHaveBeenCalledWith(
+        new URL('https://mcp.example.com/mcp'),
+        expect.objectContaining({
+          requestInit: { headers: { Authorization: 'Bearer token' } },
+          reconnectionOptions: expect.objectContaining({ maxRetries: 5 }),
+        })
+      );
+      expect(mockClient.connect).toHaveBeenCalledWith(
+        (StreamableHTTPClientTransport as Mock).mock.results[0].value
+      );
+      expect(result.client).toBe(mockClient);
+      expect(result.capabilities.tools).toEqual(mockTools);
+    });
+
+    it('should connect to an sse server', async () => {
+      await discovery.discoverRemoteCapabilities('legacy', {
+        transport: 'sse',
+        url: 'http://localhost:3001/sse',
+      });
+
+      expect(SSEClientTransport).toHaveBeenCalledWith(
+        new URL('http://localhost:3001/sse'),
+        { requestInit: undefined }
+      );
+      expect(StreamableHTTPClientTransport).not.toHaveBeenCalled();
+    });
+
+    it('should report a remote server that cannot be reached', async () => {
+      mockClient.connect.mockRejectedValue(new Error('fetch failed'));
 
       await expect(
-        discovery.discoverCapabilities('test', mockProcess)
-      ).rejects.toThrow('No capabilities discovered');
+        discovery.discoverRemoteCapabilities('search', {
+          transport: 'http',
+          url: 'http://localhost:1/mcp',
+        })
+      ).rejects.toThrow(DiscoveryError);
+    });
+
+    it('should connect to a server that starts with no tools', async () => {
+      mockClient.listTools.mockResolvedValue({ tools: [] });
+      mockClient.listResources.mockResolvedValue({ resources: [] });
+
+      const { client, capabilities } = await discovery.discoverCapabilities(
+        'test',
+        mockProcess
+      );
+
+      expect(client).toBe(mockClient);
+      expect(capabilities.tools).toEqual([]);
     });
   });
 
@@ -165,10 +368,12 @@ describe('ServerDiscovery', () => {
       expect(results.get('server1')?.capabilities).toEqual({
         tools: mockTools,
         resources: mockResources,
+        prompts: mockPrompts,
       });
       expect(results.get('server2')?.capabilities).toEqual({
         tools: mockTools,
         resources: mockResources,
+        prompts: mockPrompts,
       });
     });
 
@@ -1,11 +1,68 @@
-import { MCPTool, MCPResource } from '../llm/types';
+import { MCPTool, MCPResource, MCPPrompt, MCPRoot } from '../llm/types';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPReconnectionOptions,
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  CreateMessageResult,
+  ListRootsRequestSchema,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { ChildProcess } from 'child_process';
+import { ServerConfig } from '../config/types';
+import { ChildProcessTransport } from './transport';
+
+// Backoff for re-establishing a Streamable HTTP server's event stream
+const HTTP_RECONNECTION_OPTIONS: StreamableHTTPReconnectionOptions = {
+  initialReconnectionDelay: 1000,
+  maxReconnectionDelay: 30000,
+  reconnectionDelayGrowFactor: 2,
+  maxRetries: 5,
+};
 
 export interface ServerCapabilities {
   tools: MCPTool[];
   resources: MCPResource[];
+  prompts?: MCPPrompt[];
+}
+
+/**
+ * Answers a server's sampling/createMessage request
+ */
+export type SamplingRequestHandler = (
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal
+) => Promise<CreateMessageResult>;
+
+/**
+ * A capability list a server can report as changed
+ */
+export type CapabilityList = 'tools' | 'resources' | 'prompts';
+
+export interface DiscoveryOptions {
+  // Enables the sampling capability; servers' requests are passed here
+  onSamplingRequest?: SamplingRequestHandler;
+  // Called when the server sends a */list_changed notification
+  onListChanged?: (list: CapabilityList) => void;
+  // Called when a subscribed resource changes
+  onResourceUpdated?: (uri: string) => void;
+  // Enables the roots capability; answers the server's roots/list requests
+  onListRoots?: () => MCPRoot[];
+  // Called for each notifications/message the server sends
+  onLogMessage?: (params: LoggingMessageNotification['params']) => void;
+  // Bounds the initialize handshake, for servers that are only ready once
+  // they answer it
+  connectTimeoutMs?: number;
 }
 
 // Server health states
@@ -71,17 +128,95 @@ export class ServerDiscovery {
 
   /**
    * Discovers capabilities of an MCP server using the SDK.
-   * This method is used after the server has been launched by ServerLauncher.
+   * This method is used after the server has been launched by ServerLauncher,
+   * and the client talks to that same process over its stdio.
    * The SDK's Client class handles server health verification through protocol handshake.
    *
    * @param serverName - Name of the server for logging
    * @param process - ChildProcess instance from ServerLauncher
+   * @param options - Handlers for requests the server sends to the client
    * @returns Promise<{ client: Client, capabilities: ServerCapabilities }> - Client and discovered capabilities
    * @throws DiscoveryError - When server health check or capability discovery fails
    */
   async discoverCapabilities(
     serverName: string,
-    process: ChildProcess
+    process: ChildProcess,
+    options: DiscoveryOptions = {}
+  ): Promise<{ client: Client; capabilities: ServerCapabilities }> {
+    return this.connectAndDiscover(
+      serverName,
+      () => {
+        console.log(
+          `[DISCOVERY] Creating transport for server ${serverName} with command: ${
+            process.spawnfile
+          } ${process.spawnargs.slice(1).join(' ')}`
+        );
+
+        // Log the process stderr for debugging; stdout carries the protocol
+        // Check if stderr exists and is properly initialized
+        if (process.stderr && typeof process.stderr.on === 'function') {
+          process.stderr.on('data', data => {
+            console.log(`[SERVER:${serverName}:stderr] ${data.toString().trim()}`);
+          });
+        } else {
+          console.log(`[DISCOVERY] Warning: stderr not available for ${serverName}`);
+        }
+
+        // Talk to the launched process itself rather than spawning another
+        return new ChildProcessTransport(process);
+      },
+      options
+    );
+  }
+
+  /**
+   * Discovers capabilities of a remote MCP server reached over Streamable HTTP
+   * or SSE. Nothing is launched; the SDK transport connects to the configured url.
+   *
+   * @param serverName - Name of the server for logging
+   * @param config - Server configuration with transport, url and headers
+   * @param options - Handlers for requests the server sends to the client
+   * @returns Promise<{ client: Client, capabilities: ServerCapabilities }> - Client and discovered capabilities
+   * @throws DiscoveryError - When the connection or capability discovery fails
+   */
+  async discoverRemoteCapabilities(
+    serverName: string,
+    config: ServerConfig,
+    options: DiscoveryOptions = {}
+  ): Promise<{ client: Client; capabilities: ServerCapabilities }> {
+    return this.connectAndDiscover(
+      serverName,
+      () => {
+        if (!config.url) {
+          throw new Error('No url configured');
+        }
+        console.log(
+          `[DISCOVERY] Creating ${config.transport} transport for server ${serverName} at ${config.url}`
+        );
+
+        const url = new URL(config.url);
+        const requestInit = config.headers
+          ? { headers: config.headers }
+          : undefined;
+        if (config.transport === 'sse') {
+          return new SSEClientTransport(url, { requestInit });
+        }
+        return new StreamableHTTPClientTransport(url, {
+          requestInit,
+          reconnectionOptions: HTTP_RECONNECTION_OPTIONS,
+        });
+      },
+      options
+    );
+  }
+
+  /**
+   * Connects an SDK client over the transport and lists the server's capabilities
+   */
+  private async connectAndDiscover(
+    serverName: string,
+    createTransport: () => Transport,
+    options: DiscoveryOptions
   ): Promise<{ client: Client; capabilities: ServerCapabilities }> {
     let currentState = ServerState.NotStarted;
     const updateState = (newState: ServerState, details?: string) => {
@@ -93,34 +228,7 @@ export class ServerDiscovery {
       updateState(ServerState.Starting);
 
       // Create SDK transport
-      console.log(
-        `[DISCOVERY] Creating transport for server ${serverName} with command: ${
-          process.spawnfile
-        } ${process.spawnargs.slice(1).join(' ')}`
-      );
-
-      // Log the process stdout and stderr for debugging
-      // Check if stdout and stderr exist and are properly initialized
-      if (process.stdout && typeof process.stdout.on === 'function') {
-        process.stdout.on('data', data => {
-          console.log(`[SERVER:${serverName}:stdout] ${data.toString().trim()}`);
-        });
-      } else {
-        console.log(`[DISCOVERY] Warning: stdout not available for ${serverName}`);
-      }
-
-      if (process.stderr && typeof process.stderr.on === 'function') {
-        process.stderr.on('data', data => {
-          console.log(`[SERVER:${serverName}:stderr] ${data.toString().trim()}`);
-        });
-      } else {
-        console.log(`[DISCOVERY] Warning: stderr not available for ${serverName}`);
-      }
-
-      const transport = new StdioClientTransport({
-        command: process.spawnfile,
-        args: process.spawnargs.slice(1), // Remove first arg which is the command
-      });
+      const transport = createTransport();
       updateState(ServerState.Ready, 'SDK transport initialized');
 
       // Initialize MCP client
@@ -137,123 +245,82 @@ export class ServerDiscovery {
           capabilities: {
             tools: {},
             resources: {},
+            ...(options.onSamplingRequest ? { sampling: {} } : {}),
+            ...(options.onListRoots ? { roots: { listChanged: true } } : {}),
           },
         }
       );
 
-      // Connect to the server (handles protocol handshake)
-      console.log(`[DISCOVERY] Connecting to server ${serverName}`);
-      try {
-        await client.connect(transport);
-        console.log(
-          `[DISCOVERY] Successfully connected to server ${serverName}`
+      const { onSamplingRequest } = options;
+      if (onSamplingRequest) {
+        client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+          onSamplingRequest(request.params, extra.signal)
         );
-      } catch (error) {
-        console.error(
-          `[DISCOVERY] Error connecting to server ${serverName}:`,
-          error
+      }
+
+      const { onListRoots } = options;
+      if (onListRoots) {
+        client.setRequestHandler(ListRootsRequestSchema, () => ({
+          roots: onListRoots(),
+        }));
+      }
+
+      const { onLogMessage } = options;
+      if (onLogMessage) {
+        client.setNotificationHandler(
+          LoggingMessageNotificationSchema,
+          notification => onLogMessage(notification.params)
         );
-        throw error;
       }
 
-      // Discover server capabilities
-      console.log(`[DISCOVERY] Listing tools for server ${serverName}`);
-      let toolsResult;
-      try {
-        toolsResult = await client.listTools({});
-        console.log(
-          `[DISCOVERY] Tools result for server ${serverName}:`,
-          JSON.stringify(toolsResult, null, 2)
+      const { onListChanged } = options;
+      if (onListChanged) {
+        client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+          onListChanged('tools')
         );
-      } catch (error) {
-        console.error(
-          `[DISCOVERY] Error listing tools for server ${serverName}:`,
-          error
+        client.setNotificationHandler(
+          ResourceListChangedNotificationSchema,
+          () => onListChanged('resources')
+        );
+        client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+          onListChanged('prompts')
         );
-        throw error;
       }
 
-      let resources: MCPResource[] = [];
+      const { onResourceUpdated } = options;
+      if (onResourceUpdated) {
+        client.setNotificationHandler(
+          ResourceUpdatedNotificationSchema,
+          notification => onResourceUpdated(notification.params.uri)
+        );
+      }
 
-      // Try to get resources, but don't fail if not supported
+      // Connect to the server (handles protocol handshake)
+      console.log(`[DISCOVERY] Connecting to server ${serverName}`);
       try {
-        console.log(`[DISCOVERY] Listing resources for server ${serverName}`);
-        const resourcesResult = await client.listResources({});
+        if (options.connectTimeoutMs) {
+          await client.connect(transport, { timeout: options.connectTimeoutMs });
+        } else {
+          await client.connect(transport);
+        }
         console.log(
-          `[DISCOVERY] Resources result for server ${serverName}:`,
-          JSON.stringify(resourcesResult, null, 2)
+          `[DISCOVERY] Successfully connected to server ${serverName}`
         );
-        resources = (resourcesResult.resources || []).map(resource => {
-          const resourceObj: MCPResource = {
-            name: resource.name,
-            type: typeof resource.type === 'string' ? resource.type : 'unknown',
-            description: resource.description,
-          };
-
-          if (resource.uri) {
-            resourceObj.uri = resource.uri;
-          }
-
-          if (resource.mimeType) {
-            resourceObj.mimeType = resource.mimeType;
-          }
-
-          return resourceObj;
-        });
-      } catch (resourceError: unknown) {
-        const errorMessage =
-          resourceError instanceof Error
-            ? resourceError.message
-            : String(resourceError);
-        console.log(
-          `Server ${serverName} does not support resources: ${errorMessage}`
+      } catch (error) {
+        console.error(
+          `[DISCOVERY] Error connecting to server ${serverName}:`,
+          error
         );
-        // Continue without resources
+        throw error;
       }
 
-      // Convert the SDK's response to our types with proper type handling
-      const tools = (toolsResult.tools || []).map(tool => {
-        console.log(
-          `[DISCOVERY] Processing tool ${tool.name} for server ${serverName}`
-        );
-        
-        // Get standard tool name (for backwards compatibility)
-        const toolName = this.normalizeToolName(tool.name);
-        console.log(`[DISCOVERY] Original tool name: ${tool.name}, normalized: ${toolName}`);
-        
-        const toolObj: MCPTool = {
-          name: tool.name, // Keep original name for calling the tool directly
-          description: tool.description,
-        };
-
-        if (tool.inputSchema) {
-          toolObj.inputSchema = {
-            type: 'object',
-            properties: tool.inputSchema.properties
-              ? (tool.inputSchema.properties as Record<string, any>)
-              : {},
-            required: Array.isArray(tool.inputSchema.required)
-              ? (tool.inputSchema.required as string[])
-              : undefined,
-          };
-        }
-
-        return toolObj;
-      });
-
-      // Create the capabilities object
-      const capabilities: ServerCapabilities = {
-        tools,
-        resources,
-      };
-
-      if (!capabilities.tools.length) {
-        throw new Error('No capabilities discovered');
-      }
+      // Discover server capabilities
+      // Servers may start with no tools and announce them later
+      const capabilities = await this.listCapabilities(serverName, client);
 
       updateState(
         ServerState.Active,
-        `Discovered ${capabilities.tools.length} tools and ${capabilities.resources.length} resources`
+        `Discovered ${capabilities.tools.length} tools, ${capabilities.resources.length} resources and ${capabilities.prompts?.length ?? 0} prompts`
       );
 
       return { client, capabilities };
@@ -274,6 +341,136 @@ export class ServerDiscovery {
     }
   }
 
+  /**
+   * Lists the tools, resources and prompts of a connected server.
+   * Used during discovery and again when the server reports that a list changed.
+   *
+   * @param serverName - Name of the server for logging
+   * @param client - Connected SDK client for the server
+   * @returns Promise<ServerCapabilities> - The server's current capabilities
+   */
+  async listCapabilities(
+    serverName: string,
+    client: Client
+  ): Promise<ServerCapabilities> {
+    console.log(`[DISCOVERY] Listing tools for server ${serverName}`);
+    let toolsResult;
+    try {
+      toolsResult = await client.listTools({});
+      console.log(
+        `[DISCOVERY] Tools result for server ${serverName}:`,
+        JSON.stringify(toolsResult, null, 2)
+      );
+    } catch (error) {
+      console.error(
+        `[DISCOVERY] Error listing tools for server ${serverName}:`,
+        error
+      );
+      throw error;
+    }
+
+    let resources: MCPResource[] = [];
+
+    // Try to get resources, but don't fail if not supported
+    try {
+      console.log(`[DISCOVERY] Listing resources for server ${serverName}`);
+      const resourcesResult = await client.listResources({});
+      console.log(
+        `[DISCOVERY] Resources result for server ${serverName}:`,
+        JSON.stringify(resourcesResult, null, 2)
+      );
+      resources = (resourcesResult.resources || []).map(resource => {
+        const resourceObj: MCPResource = {
+          name: resource.name,
+          type: typeof resource.type === 'string' ? resource.type : 'unknown',
+          description: resource.description,
+        };
+
+        if (resource.uri) {
+          resourceObj.uri = resource.uri;
+        }
+
+        if (resource.mimeType) {
+          resourceObj.mimeType = resource.mimeType;
+        }
+
+        return resourceObj;
+      });
+    } catch (resourceError: unknown) {
+      const errorMessage =
+        resourceError instanceof Error
+          ? resourceError.message
+          : String(resourceError);
+      console.log(
+        `Server ${serverName} does not support resources: ${errorMessage}`
+      );
+      // Continue without resources
+    }
+
+    let prompts: MCPPrompt[] = [];
+
+    // Try to get prompts, but don't fail if not supported
+    try {
+      console.log(`[DISCOVERY] Listing prompts for server ${serverName}`);
+      const promptsResult = await client.listPrompts({});
+      console.log(
+        `[DISCOVERY] Prompts result for server ${serverName}:`,
+        JSON.stringify(promptsResult, null, 2)
+      );
+      prompts = (promptsResult.prompts || []).map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: (prompt.arguments || []).map(argument => ({
+          name: argument.name,
+          description: argument.description,
+          required: argument.required,
+        })),
+      }));
+    } catch (promptError: unknown) {
+      const errorMessage =
+        promptError instanceof Error
+          ? promptError.message
+          : String(promptError);
+      console.log(
+        `Server ${serverName} does not support prompts: ${errorMessage}`
+      );
+      // Continue without prompts
+    }
+
+    // Convert the SDK's response to our types with proper type handling
+    const tools = (toolsResult.tools || []).map(tool => {
+      console.log(
+        `[DISCOVERY] Processing tool ${tool.name} for server ${serverName}`
+      );
+      
+      // Get standard tool name (for backwards compatibility)
+      const toolName = this.normalizeToolName(tool.name);
+      console.log(`[DISCOVERY] Original tool name: ${tool.name}, normalized: ${toolName}`);
+      
+      const toolObj: MCPTool = {
+        name: tool.name, // Keep original name for calling the tool directly
+        description: tool.description,
+      };
+
+      if (tool.inputSchema) {
+        toolObj.inputSchema = {
+          ...tool.inputSchema,
+          type: 'object',
+          properties: tool.inputSchema.properties
+            ? (tool.inputSchema.properties as Record<string, any>)
+            : {},
+          required: Array.isArray(tool.inputSchema.required)
+            ? (tool.inputSchema.required as string[])
+            : undefined,
+        };
+      }
+
+      return toolObj;
+    });
+
+    return { tools, resources, prompts };
+  }
+
   /**
    * Discovers capabilities of multiple MCP servers.
    * The SDK handles health verification during client initialization.
@@ -365,6 +365,78 @@ describe('ServerLauncher', () => {
     });
   });
 
+  describe('Readiness', () => {
+    it('should wait for the configured pattern instead of the default', async () => {
+      const serverConfig: ServerConfig = {
+        command: 'python',
+        args: ['-m', 'weather_server'],
+        env: {},
+        ready: { type: 'log', pattern: 'Weather server started' },
+      };
+
+      const mockProcess = createMockProcess();
+      // Report the process as running once it is launched
+      mockProcess.kill = vi.fn().mockReturnValue(true);
+      mockSpawn.mockReturnValue(mockProcess);
+
+      const launchPromise = launcher.launchServer('weather', serverConfig);
+
+      setTimeout(() => {
+        (mockProcess.stderr as PassThrough).write(
+          Buffer.from('Weather server started\n')
+        );
+      }, 0);
+
+      await expect(launchPromise).resolves.toBe(mockProcess);
+    });
+
+    it('should use the configured launch timeout', async () => {
+      const serverConfig: ServerConfig = {
+        command: 'npx',
+        args: ['test'],
+        env: {},
+        launch_timeout_ms: 50,
+      };
+
+      const mockProcess = createMockProcess();
+      mockSpawn.mockReturnValue(mockProcess);
+      const started = Date.now();
+
+      await expect(
+        launcher.launchServer('test', serverConfig)
+      ).rejects.toMatchObject({
+        name: 'ServerLaunchError',
+        message: expect.stringContaining('timeout'),
+      });
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(launcher.getServerProcess('test')).toBeNull();
+    });
+
+    it('should use the configured health check settings', async () => {
+      const serverConfig: ServerConfig = {
+        command: 'npx',
+        args: ['test'],
+        env: {},
+        ready: { type: 'delay', ms: 10 },
+        health_check: { retries: 2, interval_ms: 10, timeout_ms: 1000 },
+      };
+
+      const mockProcess = createMockProcess();
+      mockProcess.kill = vi
+        .fn()
+        .mockImplementationOnce(() => {
+          throw new Error('EPERM');
+        })
+        .mockReturnValue(true);
+      mockSpawn.mockReturnValue(mockProcess);
+
+      await expect(launcher.launchServer('test', serverConfig)).resolves.toBe(
+        mockProcess
+      );
+      expect(mockProcess.kill).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('Server Cleanup', () => {
     it('should properly clean up on server error', async () => {
       const serverConfig: ServerConfig = {
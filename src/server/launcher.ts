@@ -1,5 +1,11 @@
 import { spawn, ChildProcess } from 'child_process';
-import { ServerConfig } from '../config/types';
+import { ServerConfig, ServerHealthCheck } from '../config/types';
+import {
+  DEFAULT_LAUNCH_TIMEOUT_MS,
+  DEFAULT_READINESS,
+  describeReadiness,
+  waitForReadiness,
+} from './readiness';
 
 export class ServerError extends Error {
   constructor(
@@ -43,7 +49,7 @@ export class ServerExitError extends ServerError {
 
 export class ServerLauncher {
   private servers: Map<string, ChildProcess> = new Map();
-  private readonly launchTimeout = 15000; // 15 seconds
+  private readonly launchTimeout = DEFAULT_LAUNCH_TIMEOUT_MS;
   private readonly healthCheckTimeout = 10000; // 10 seconds
   private readonly healthCheckRetries = 3;
   private readonly healthCheckInterval = 2000; // 2 seconds
@@ -59,11 +65,16 @@ export class ServerLauncher {
       throw new ServerLaunchError(serverName, 'Server is already running');
     }
 
+    // Remote servers are connected to, not launched
+    if (!config.command) {
+      throw new ServerLaunchError(serverName, 'No command configured');
+    }
+
     let serverProcess: ChildProcess | null = null;
 
     try {
       // Launch server process
-      serverProcess = spawn(config.command, config.args, {
+      serverProcess = spawn(config.command, config.args ?? [], {
         env: { ...process.env, ...config.env },
       });
 
@@ -75,10 +86,10 @@ export class ServerLauncher {
       this.servers.set(serverName, serverProcess);
 
       // Wait for server to be ready
-      await this.waitForServerReady(serverName, serverProcess);
+      await this.waitForServerReady(serverName, serverProcess, config);
 
       // Perform health check
-      await this.waitForHealthCheck(serverName);
+      await this.waitForHealthCheck(serverName, config.health_check);
 
       // Set up persistent error handling
       this.setupErrorHandlers(serverName, serverProcess);
@@ -103,65 +114,80 @@ export class ServerLauncher {
 
   private async waitForServerReady(
     serverName: string,
-    serverProcess: ChildProcess
+    serverProcess: ChildProcess,
+    config: ServerConfig
   ): Promise<void> {
+    const readiness = config.ready ?? DEFAULT_READINESS;
+    const launchTimeout = config.launch_timeout_ms ?? this.launchTimeout;
+    // Stops the readiness check once launching succeeds or fails
+    const readinessCheck = new AbortController();
+
     return new Promise<void>((resolve, reject) => {
-      let hasError = false;
-      let isReady = false;
+      let settled = false;
       let timeoutId: NodeJS.Timeout;
 
+      const fail = (error: ServerError) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeoutId);
+          readinessCheck.abort();
+          reject(error);
+        }
+      };
+
       console.log(
-        `[LAUNCHER] Waiting for server ${serverName} to be ready (timeout: ${this.launchTimeout}ms)`
+        `[LAUNCHER] Waiting for server ${serverName} to be ready (${describeReadiness(
+          readiness
+        )}, timeout: ${launchTimeout}ms)`
       );
 
-      // Handle server ready message
       serverProcess.stderr?.on('data', (data: Buffer) => {
-        const message = data.toString();
-        console.log(`[LAUNCHER] Server ${serverName} stderr:`, message);
-        if (
-          message.includes('running on stdio') ||
-          message.includes('Allowed directories:')
-        ) {
-          console.log(`[LAUNCHER] Server ${serverName} is ready`);
-          isReady = true;
-          clearTimeout(timeoutId);
-          resolve();
-        }
+        console.log(`[LAUNCHER] Server ${serverName} stderr:`, data.toString());
       });
 
       // Handle server errors
       serverProcess.on('error', (error: Error) => {
-        hasError = true;
-        clearTimeout(timeoutId);
-        reject(new ServerLaunchError(serverName, error.message));
+        fail(new ServerLaunchError(serverName, error.message));
       });
 
       // Handle server exit
       serverProcess.on(
         'exit',
         (code: number | null, signal: NodeJS.Signals | null) => {
-          if (!isReady && !hasError) {
-            clearTimeout(timeoutId);
-            reject(new ServerExitError(serverName, code, signal));
-          }
+          fail(new ServerExitError(serverName, code, signal));
         }
       );
 
       // Set timeout
       timeoutId = setTimeout(() => {
-        if (!isReady && !hasError) {
-          reject(
-            new ServerLaunchError(serverName, 'Server startup timeout reached')
-          );
+        fail(
+          new ServerLaunchError(serverName, 'Server startup timeout reached')
+        );
+      }, launchTimeout);
+
+      waitForReadiness(serverProcess, readiness, readinessCheck.signal).then(
+        () => {
+          if (!settled) {
+            console.log(`[LAUNCHER] Server ${serverName} is ready`);
+            settled = true;
+            clearTimeout(timeoutId);
+            resolve();
+          }
+        },
+        (error: Error) => {
+          fail(new ServerLaunchError(serverName, error.message));
         }
-      }, this.launchTimeout);
+      );
     });
   }
 
   private async waitForHealthCheck(
     serverName: string,
-    retries = this.healthCheckRetries,
-    interval = this.healthCheckInterval
+    {
+      retries = this.healthCheckRetries,
+      interval_ms: interval = this.healthCheckInterval,
+      timeout_ms: timeout = this.healthCheckTimeout,
+    }: ServerHealthCheck = {}
   ): Promise<void> {
     console.log(
       `[LAUNCHER] Starting health check with ${retries} retries at ${interval}ms intervals`
@@ -248,7 +274,7 @@ export class ServerLauncher {
         reject(
           new ServerHealthError(serverName, 'Health check timeout reached')
         );
-      }, this.healthCheckTimeout);
+      }, timeout);
     });
   }
 
@@ -0,0 +1,655 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { ServerPool, ServerPoolMember, serverKey } from './pool';
+import {
+  ServerError,
+  ServerExitError,
+  ServerHealthError,
+  ServerLaunchError,
+  ServerLauncher,
+} from './launcher';
+import { ServerDiscovery, ServerState } from './discovery';
+import { ServerConfig } from '../config/types';
+
+describe('ServerPool', () => {
+  let launcher: {
+    launchServer: ReturnType<typeof vi.fn>;
+    getServerProcess: ReturnType<typeof vi.fn>;
+    cleanup: ReturnType<typeof vi.fn>;
+    stopAll: ReturnType<typeof vi.fn>;
+  };
+  let discovery: {
+    discoverCapabilities: ReturnType<typeof vi.fn>;
+    discoverRemoteCapabilities: ReturnType<typeof vi.fn>;
+  };
+  let pool: ServerPool;
+
+  const filesystem: ServerConfig = {
+    command: 'npx',
+    args: ['-y', '@modelcontextprotocol/server-filesystem', '/workspace'],
+    env: { LOG_LEVEL: 'info' },
+  };
+
+  const connection = () => ({
+    client: {
+      close: vi.fn().mockResolvedValue(undefined),
+      ping: vi.fn().mockResolvedValue({}),
+    } as any,
+    capabilities: { tools: [{ name: 'read_file' }], resources: [] },
+  });
+
+  beforeEach(() => {
+    launcher = {
+      launchServer: vi.fn().mockResolvedValue(undefined),
+      getServerProcess: vi
+        .fn()
+        .mockReturnValue(
+          Object.assign(new EventEmitter(), { pid: 123, kill: vi.fn() })
+        ),
+      cleanup: vi.fn(),
+      stopAll: vi.fn().mockResolvedValue(undefined),
+    };
+    discovery = {
+      discoverCapabilities: vi
+        .fn()
+        .mockImplementation(async () => connection()),
+      discoverRemoteCapabilities: vi
+        .fn()
+        .mockImplementation(async () => connection()),
+    };
+    pool = new ServerPool(
+      launcher as unknown as ServerLauncher,
+      discovery as unknown as ServerDiscovery
+    );
+  });
+
+  it('should share one server between sessions with the same config', async () => {
+    const first = await pool.acquire('session-1', 'filesystem', filesystem, {});
+    const second = await pool.acquire(
+      'session-2',
+      'files',
+      { ...filesystem, requires_approval: true },
+      {}
+    );
+
+    expect(second).toBe(first);
+    expect(launcher.launchServer).toHaveBeenCalledTimes(1);
+    expect(launcher.launchServer).toHaveBeenCalledWith(
+      `filesystem@${serverKey(filesystem)}`,
+      filesystem
+    );
+    expect(pool.getUsage()).toEqual(
+      new Map([[`filesystem@${serverKey(filesystem)}`, 2]])
+    );
+  });
+
+  it('should share a server while it is still starting', async () => {
+    const [first, second] = await Promise.all([
+      pool.acquire('session-1', 'filesystem', filesystem, {}),
+      pool.acquire('session-2', 'filesystem', filesystem, {}),
+    ]);
+
+    expect(second).toBe(first);
+    expect(launcher.launchServer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should launch separate servers for different configs', async () => {
+    await pool.acquire('session-1', 'filesystem', filesystem, {});
+    await pool.acquire(
+      'session-2',
+      'filesystem',
+      { ...filesystem, args: ['-y', 'server-filesystem', '/other'] },
+      {}
+    );
+
+    expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give each session its own isolated server', async () => {
+    const isolated = { ...filesystem, isolated: true };
+    const first = await pool.acquire('session-1', 'filesystem', isolated, {});
+    const second = await pool.acquire('session-2', 'filesystem', isolated, {});
+
+    expect(second).not.toBe(first);
+    expect(launcher.launchServer.mock.calls.map(([name]) => name)).toEqual([
+      `filesystem@${serverKey(isolated)}:session-1`,
+      `filesystem@${serverKey(isolated)}:session-2`,
+    ]);
+  });
+
+  it('should stop a server when the last session releases it', async () => {
+    const { client } = await pool.acquire(
+      'session-1',
+      'filesystem',
+      filesystem,
+      {}
+    );
+    await pool.acquire('session-2', 'filesystem', filesystem, {});
+    const instanceName = `filesystem@${serverKey(filesystem)}`;
+
+    await pool.release('session-1', 'filesystem');
+    expect(client.close).not.toHaveBeenCalled();
+    expect(launcher.cleanup).not.toHaveBeenCalled();
+
+    await pool.release('session-2', 'filesystem');
+    expect(client.close).toHaveBeenCalledTimes(1);
+    expect(launcher.cleanup).toHaveBeenCalledWith(instanceName);
+    expect(pool.getUsage().size).toBe(0);
+  });
+
+  it('should not keep a server that failed to start', async () => {
+    discovery.discoverCapabilities.mockRejectedValueOnce(
+      new Error('Connection closed')
+    );
+
+    await expect(
+      pool.acquire('session-1', 'filesystem', filesystem, {})
+    ).rejects.toThrow('Connection closed');
+    expect(launcher.cleanup).toHaveBeenCalledWith(
+      `filesystem@${serverKey(filesystem)}`
+    );
+    expect(pool.getUsage().size).toBe(0);
+
+    await pool.acquire('session-2', 'filesystem', filesystem, {});
+    expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bound the initialize handshake by the launch timeout', async () => {
+    await pool.acquire(
+      'session-1',
+      'filesystem',
+      { ...filesystem, ready: { type: 'initialize' }, launch_timeout_ms: 5000 },
+      {}
+    );
+    await pool.acquire(
+      'session-2',
+      'filesystem',
+      { ...filesystem, isolated: true },
+      {}
+    );
+
+    expect(discovery.discoverCapabilities.mock.calls[0][2]).toMatchObject({
+      connectTimeoutMs: 5000,
+    });
+    expect(
+      discovery.discoverCapabilities.mock.calls[1][2].connectTimeoutMs
+    ).toBeUndefined();
+  });
+
+  it("should pass the server's notifications to every session using it", async () => {
+    let secondRoots = [{ uri: 'file:///workspace/a', name: 'a' }];
+    const first: ServerPoolMember = {
+      onListChanged: vi.fn(),
+      onLogMessage: vi.fn(),
+      onListRoots: () => [{ uri: 'file:///workspace/a', name: 'a' }],
+      onSamplingRequest: vi.fn().mockResolvedValue({ from: 'first' }),
+      hasCallInFlight: () => false,
+    };
+    const second: ServerPoolMember = {
+      onListChanged: vi.fn(),
+      onLogMessage: vi.fn(),
+      onListRoots: () => secondRoots,
+      onSamplingRequest: vi.fn().mockResolvedValue({ from: 'second' }),
+      hasCallInFlight: () => false,
+    };
+    await pool.acquire('session-1', 'filesystem', filesystem, first);
+    await pool.acquire('session-2', 'filesystem', filesystem, second);
+    expect(launcher.launchServer).toHaveBeenCalledTimes(1);
+    const [, , options] = discovery.discoverCapabilities.mock.calls[0];
+
+    options.onListChanged('tools');
+    options.onLogMessage({ level: 'info', data: 'Indexed' });
+
+    expect(first.onListChanged).toHaveBeenCalledWith('tools');
+    expect(second.onListChanged).toHaveBeenCalledWith('tools');
+    expect(first.onLogMessage).toHaveBeenCalledWith({
+      level: 'info',
+      data: 'Indexed',
+    });
+    expect(second.onLogMessage).toHaveBeenCalledTimes(1);
+
+    // Roots one session adds later aren't offered to the others
+    secondRoots = [...secondRoots, { uri: 'file:///workspace/b', name: 'b' }];
+    expect(options.onListRoots()).toEqual([
+      { uri: 'file:///workspace/a', name: 'a' },
+    ]);
+  });
+
+  it('should send what a shared server sends during a call to the calling session', async () => {
+    let secondCalling = false;
+    const first: ServerPoolMember = {
+      onLogMessage: vi.fn(),
+      onSamplingRequest: vi.fn().mockResolvedValue({ from: 'first' }),
+      hasCallInFlight: () => false,
+    };
+    const second: ServerPoolMember = {
+      onLogMessage: vi.fn(),
+      onSamplingRequest: vi.fn().mockResolvedValue({ from: 'second' }),
+      hasCallInFlight: () => secondCalling,
+    };
+    await pool.acquire('session-1', 'filesystem', filesystem, first);
+    await pool.acquire('session-2', 'filesystem', filesystem, second);
+    const [, , options] = discovery.discoverCapabilities.mock.calls[0];
+
+    // Without a call in flight, no session can be told apart
+    expect(() =>
+      options.onSamplingRequest({}, new AbortController().signal)
+    ).toThrow("Sampling request from filesystem can't be tied to one session");
+
+    secondCalling = true;
+    options.onLogMessage({ level: 'info', data: 'Searching' });
+    await expect(
+      options.onSamplingRequest({}, new AbortController().signal)
+    ).resolves.toEqual({ from: 'second' });
+
+    expect(first.onLogMessage).not.toHaveBeenCalled();
+    expect(second.onLogMessage).toHaveBeenCalledWith({
+      level: 'info',
+      data: 'Searching',
+    });
+    expect(first.onSamplingRequest).not.toHaveBeenCalled();
+  });
+
+  it('should not share a server between sessions offering different roots', async () => {
+    const first = await pool.acquire('session-1', 'filesystem', filesystem, {
+      onListRoots: () => [{ uri: 'file:///workspace/a' }],
+    });
+    const second = await pool.acquire('session-2', 'filesystem', filesystem, {
+      onListRoots: () => [{ uri: 'file:///workspace/b' }],
+    });
+
+    expect(second).not.toBe(first);
+    expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should move a session off a shared server when its roots change', async () => {
+    let firstRoots: { uri: string }[] = [];
+    const first = await pool.acquire('session-1', 'filesystem', filesystem, {
+      onListRoots: () => firstRoots,
+    });
+    await pool.acquire('session-2', 'filesystem', filesystem, {});
+
+    firstRoots = [{ uri: 'file:///workspace/a' }];
+    const moved = await pool.updateRoots('session-1', 'filesystem');
+
+    expect(moved).toBeDefined();
+    expect(moved).not.toBe(first);
+    expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+    const [, , options] = discovery.discoverCapabilities.mock.calls[1];
+    expect(options.onListRoots()).toEqual([{ uri: 'file:///workspace/a' }]);
+    expect(first.client.close).not.toHaveBeenCalled();
+    expect(Array.from(pool.getUsage().values())).toEqual([1, 1]);
+  });
+
+  it("should keep a server only one session uses when that session's roots change", async () => {
+    let roots: { uri: string }[] = [];
+    await pool.acquire('session-1', 'filesystem', filesystem, {
+      onListRoots: () => roots,
+    });
+
+    roots = [{ uri: 'file:///workspace/a' }];
+    await expect(
+      pool.updateRoots('session-1', 'filesystem')
+    ).resolves.toBeUndefined();
+    expect(launcher.launchServer).toHaveBeenCalledTimes(1);
+
+    // A session without roots no longer shares it
+    await pool.acquire('session-2', 'filesystem', filesystem, {});
+    expect(launcher.launchServer).toHaveBeenLastCalledWith(
+      `filesystem@${serverKey(filesystem)}-2`,
+      filesystem
+    );
+  });
+
+  it('should restart a shared server for every session using it', async () => {
+    const first = { onReconnect: vi.fn(), onDisconnect: vi.fn() };
+    const second = { onReconnect: vi.fn(), onDisconnect: vi.fn() };
+    const original = await pool.acquire(
+      'session-1',
+      'filesystem',
+      filesystem,
+      first
+    );
+    await pool.acquire('session-2', 'filesystem', filesystem, second);
+    const oldProcess = launcher.getServerProcess('filesystem') as {
+      kill: ReturnType<typeof vi.fn>;
+    };
+
+    const restarted = await pool.restart('session-2', 'filesystem');
+
+    expect(original.client.close).toHaveBeenCalled();
+    expect(oldProcess.kill).toHaveBeenCalledWith('SIGKILL');
+    expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+    expect(first.onDisconnect).toHaveBeenCalled();
+    expect(first.onReconnect).toHaveBeenCalledWith(restarted);
+    expect(second.onReconnect).toHaveBeenCalledWith(restarted);
+    expect(await pool.acquire('session-3', 'filesystem', filesystem, {})).toBe(
+      restarted
+    );
+  });
+
+  it('should stop every server on releaseAll', async () => {
+    const { client } = await pool.acquire(
+      'session-1',
+      'filesystem',
+      filesystem,
+      {}
+    );
+
+    await pool.releaseAll();
+
+    expect(client.close).toHaveBeenCalled();
+    expect(launcher.stopAll).toHaveBeenCalled();
+    expect(pool.getUsage().size).toBe(0);
+  });
+
+  it('should remember the capabilities a server reported after it stops', async () => {
+    expect(pool.getDiscoveredCapabilities(filesystem)).toBeUndefined();
+
+    await pool.acquire('session-1', 'filesystem', filesystem, {});
+    await pool.release('session-1', 'filesystem');
+
+    expect(pool.getDiscoveredCapabilities(filesystem)).toEqual({
+      tools: [{ name: 'read_file' }],
+      resources: [],
+    });
+    expect(
+      pool.getDiscoveredCapabilities({ ...filesystem, args: ['/tmp'] })
+    ).toBeUndefined();
+  });
+
+  describe('crash recovery', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should restart a server that exits and tell each session', async () => {
+      const member = {
+        onDisconnect: vi.fn(),
+        onRestarting: vi.fn(),
+        onReconnect: vi.fn(),
+      };
+      const first = await pool.acquire(
+        'session-1',
+        'filesystem',
+        filesystem,
+        member
+      );
+      Object.assign(launcher.getServerProcess('filesystem') as object, {
+        exitCode: null,
+        signalCode: 'SIGSEGV',
+      });
+
+      first.client.onclose?.();
+      const [error] = member.onDisconnect.mock.calls[0];
+      expect(error).toBeInstanceOf(ServerExitError);
+      expect(error.message).toBe('Server filesystem exited (signal: SIGSEGV)');
+      expect(member.onRestarting).toHaveBeenCalledWith(1, 1000);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+      expect(member.onReconnect).toHaveBeenCalledWith(
+        await discovery.discoverCapabilities.mock.results[1].value
+      );
+    });
+
+    it('should follow the restart policy and give up after max_attempts', async () => {
+      const member = {
+        onRestarting: vi.fn(),
+        onReconnect: vi.fn(),
+        onRestartFailed: vi.fn(),
+      };
+      const config = {
+        ...filesystem,
+        restart: { max_attempts: 3, initial_delay_ms: 100, max_delay_ms: 300 },
+      };
+      const first = await pool.acquire(
+        'session-1',
+        'filesystem',
+        config,
+        member
+      );
+      launcher.launchServer.mockRejectedValue(
+        new ServerLaunchError('filesystem', 'spawn node ENOENT')
+      );
+
+      first.client.onclose?.();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(member.onRestarting.mock.calls).toEqual([
+        [1, 100],
+        [2, 200],
+        [3, 300],
+      ]);
+      expect(launcher.launchServer).toHaveBeenCalledTimes(4);
+      expect(member.onReconnect).not.toHaveBeenCalled();
+      expect(member.onRestartFailed).toHaveBeenCalledWith(
+        new ServerError(
+          'Server filesystem could not be restarted after 3 attempts',
+          'filesystem'
+        )
+      );
+    });
+
+    it('should start a server again for the next session after giving up', async () => {
+      const member = { onRestartFailed: vi.fn(), onReconnect: vi.fn() };
+      const config = {
+        ...filesystem,
+        restart: { max_attempts: 1, initial_delay_ms: 100 },
+      };
+      const first = await pool.acquire(
+        'session-1',
+        'filesystem',
+        config,
+        member
+      );
+      launcher.launchServer.mockRejectedValueOnce(
+        new ServerLaunchError('filesystem', 'spawn node ENOENT')
+      );
+      first.client.onclose?.();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(member.onRestartFailed).toHaveBeenCalled();
+      expect(pool.getHealth('session-1', 'filesystem')?.state).toBe(
+        ServerState.Error
+      );
+
+      const second = await pool.acquire('session-2', 'filesystem', config, {});
+
+      expect(launcher.launchServer).toHaveBeenCalledTimes(3);
+      expect(second).toBe(
+        await discovery.discoverCapabilities.mock.results[1].value
+      );
+      expect(member.onReconnect).toHaveBeenCalledWith(second);
+      expect(pool.getHealth('session-1', 'filesystem')?.state).toBe(
+        ServerState.Active
+      );
+    });
+
+    it('should restart once when an outage is reported twice', async () => {
+      const member = { onRestarting: vi.fn(), onReconnect: vi.fn() };
+      const first = await pool.acquire(
+        'session-1',
+        'filesystem',
+        filesystem,
+        member
+      );
+
+      first.client.onclose?.();
+      first.client.onclose?.();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(member.onRestarting).toHaveBeenCalledTimes(1);
+      expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+      expect(member.onReconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not restart a server it stopped', async () => {
+      const { client } = await pool.acquire(
+        'session-1',
+        'filesystem',
+        filesystem,
+        {}
+      );
+
+      await pool.release('session-1', 'filesystem');
+      expect(client.onclose).toBeUndefined();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(launcher.launchServer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pings', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should ping active servers and record the round trip', async () => {
+      const config = { ...filesystem, ping: { interval_ms: 5000 } };
+      const { client } = await pool.acquire(
+        'session-1',
+        'filesystem',
+        config,
+        {}
+      );
+      expect(pool.getHealth('session-1', 'filesystem')).toEqual({
+        state: ServerState.Active,
+        failedPings: 0,
+      });
+      vi.mocked(client.ping).mockImplementation(
+        () => new Promise(resolve => setTimeout(() => resolve({}), 40))
+      );
+
+      await vi.advanceTimersByTimeAsync(5040);
+
+      expect(client.ping).toHaveBeenCalledWith({ timeout: 10000 });
+      expect(pool.getHealth('session-1', 'filesystem')).toEqual({
+        state: ServerState.Active,
+        latencyMs: 40,
+        lastPingAt: expect.any(Date),
+        failedPings: 0,
+      });
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(client.ping).toHaveBeenCalledTimes(2);
+    });
+
+    it('should restart a server that misses the failure threshold', async () => {
+      const config = {
+        ...filesystem,
+        ping: { interval_ms: 1000, failure_threshold: 2 },
+      };
+      const member = { onDisconnect: vi.fn(), onReconnect: vi.fn() };
+      const { client } = await pool.acquire(
+        'session-1',
+        'filesystem',
+        config,
+        member
+      );
+      vi.mocked(client.ping).mockRejectedValue(new Error('Request timed out'));
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(pool.getHealth('session-1', 'filesystem')).toMatchObject({
+        state: ServerState.Active,
+        failedPings: 1,
+        error: 'Request timed out',
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      const [error] = member.onDisconnect.mock.calls[0];
+      expect(error).toBeInstanceOf(ServerHealthError);
+      expect(error.message).toBe(
+        'Server filesystem health check failed: 2 pings in a row failed'
+      );
+      expect(pool.getHealth('session-1', 'filesystem')).toMatchObject({
+        state: ServerState.Error,
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.close).toHaveBeenCalled();
+      expect(launcher.launchServer).toHaveBeenCalledTimes(2);
+      expect(member.onReconnect).toHaveBeenCalled();
+      expect(pool.getHealth('session-1', 'filesystem')).toEqual({
+        state: ServerState.Active,
+        failedPings: 0,
+      });
+    });
+
+    it('should stop pinging a server once it is released', async () => {
+      const { client } = await pool.acquire(
+        'session-1',
+        'filesystem',
+        filesystem,
+        {}
+      );
+
+      await pool.release('session-1', 'filesystem');
+      await vi.advanceTimersByTimeAsync(120000);
+
+      expect(client.ping).not.toHaveBeenCalled();
+      expect(pool.getHealth('session-1', 'filesystem')).toBeUndefined();
+    });
+  });
+
+  describe('remote servers', () => {
+    const search: ServerConfig = {
+      transport: 'http',
+      url: 'https://mcp.example.com/mcp',
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reconnect with backoff and tell each session', async () => {
+      const member = { onDisconnect: vi.fn(), onReconnect: vi.fn() };
+      const first = await pool.acquire('session-1', 'search', search, member);
+      discovery.discoverRemoteCapabilities.mockRejectedValueOnce(
+        new Error('fetch failed')
+      );
+
+      first.client.onclose?.();
+      expect(member.onDisconnect).toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(member.onReconnect).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(discovery.discoverRemoteCapabilities).toHaveBeenCalledTimes(3);
+      expect(member.onReconnect).toHaveBeenCalledWith(
+        await discovery.discoverRemoteCapabilities.mock.results[2].value
+      );
+      expect(launcher.launchServer).not.toHaveBeenCalled();
+    });
+
+    it('should stop reconnecting once the server is released', async () => {
+      const { client } = await pool.acquire('session-1', 'search', search, {});
+      const onclose = client.onclose!;
+
+      await pool.release('session-1', 'search');
+      onclose();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(discovery.discoverRemoteCapabilities).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should key servers by config regardless of key order', () => {
+    expect(
+      serverKey({ command: 'node', args: [], env: { A: '1', B: '2' } })
+    ).toBe(serverKey({ env: { B: '2', A: '1' }, args: [], command: 'node' }));
+    expect(serverKey({ command: 'node', args: ['a.js'] })).not.toBe(
+      serverKey({ command: 'node', args: ['b.js'] })
+    );
+  });
+});
@@ -0,0 +1,752 @@
+import { createHash } from 'crypto';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ServerConfig, isRemoteServer } from '../config/types';
+import { MCPRoot } from '../llm/types';
+import {
+  ServerError,
+  ServerExitError,
+  ServerHealthError,
+  ServerLauncher,
+} from './launcher';
+import {
+  DiscoveryOptions,
+  ServerCapabilities,
+  ServerDiscovery,
+  ServerState,
+} from './discovery';
+import { DEFAULT_LAUNCH_TIMEOUT_MS } from './readiness';
+
+// Restart policy for servers that don't configure one
+const DEFAULT_MAX_RESTART_ATTEMPTS = 5;
+const DEFAULT_INITIAL_RESTART_DELAY_MS = 1000;
+const DEFAULT_MAX_RESTART_DELAY_MS = 30000;
+
+// Ping policy for servers that don't configure one
+const DEFAULT_PING_INTERVAL_MS = 30000;
+const DEFAULT_PING_TIMEOUT_MS = 10000;
+const DEFAULT_PING_FAILURE_THRESHOLD = 3;
+
+export interface ServerConnection {
+  client: Client;
+  capabilities: ServerCapabilities;
+}
+
+/**
+ * A server's state and how it answered the pings sent to it
+ */
+export interface ServerHealth {
+  state: ServerState;
+  latencyMs?: number; // Round trip of the last answered ping
+  lastPingAt?: Date; // When the last answered ping was sent
+  failedPings: number; // Pings failed since the last answered one
+  error?: string; // Why the last ping failed, or why the server is down
+}
+
+/**
+ * A session using a pooled server: its handlers for what the server sends,
+ * and notifications about the connection itself
+ */
+export interface ServerPoolMember extends DiscoveryOptions {
+  // The connection closed and is being re-established. The error says why
+  // when the server exited or dropped the connection on its own.
+  onDisconnect?: (error?: ServerError) => void;
+  // A restart attempt will start after the delay
+  onRestarting?: (attempt: number, delayMs: number) => void;
+  // The server was restarted or reconnected
+  onReconnect?: (connection: ServerConnection) => void;
+  // Every restart attempt failed; the server stays down until restarted
+  onRestartFailed?: (error: ServerError) => void;
+  // Whether the session has a tool call in flight to the server, so what a
+  // shared server sends while answering it reaches only that session
+  hasCallInFlight?: () => boolean;
+}
+
+interface PooledServer {
+  key: string;
+  serverName: string;
+  // Name the launcher tracks the process under
+  instanceName: string;
+  config: ServerConfig;
+  // Sessions using the server, keyed by session ID
+  members: Map<string, ServerPoolMember>;
+  connection: Promise<ServerConnection>;
+  // The connection in use, while the server is active
+  current?: ServerConnection;
+  health: ServerHealth;
+  pingTimer?: NodeJS.Timeout;
+  // Restart in progress after the server went down
+  recovery?: Promise<void>;
+  // Set once restarting gave up, until a session acquires the server again
+  restartFailed?: boolean;
+  closed: boolean;
+}
+
+/**
+ * Identify a server by the settings that decide which process or endpoint
+ * it is. Settings that only affect how the client uses its tools, such as
+ * requires_approval, don't split the pool.
+ */
+export function serverKey(config: ServerConfig): string {
+  const { transport = 'stdio', command, args, env, url, headers } = config;
+  return createHash('sha256')
+    .update(canonicalJson({ transport, command, args, env, url, headers }))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Identify the server a session gets: sessions share a server only when
+ * they offer it the same roots, since a server sees its users' roots.
+ * Servers configured with `isolated` get an instance per session.
+ */
+function poolKey(
+  sessionId: string,
+  config: ServerConfig,
+  roots: MCPRoot[]
+): string {
+  if (config.isolated) {
+    return `${serverKey(config)}:${sessionId}`;
+  }
+  if (roots.length === 0) {
+    return serverKey(config);
+  }
+  const uris = roots.map(root => root.uri).sort();
+  return `${serverKey(config)}:${createHash('sha256')
+    .update(canonicalJson(uris))
+    .digest('hex')
+    .slice(0, 12)}`;
+}
+
+/**
+ * Delays before each restart attempt under the server's restart policy,
+ * doubling from the initial delay up to the maximum
+ */
+function restartDelays(config: ServerConfig): number[] {
+  const attempts = config.restart?.max_attempts ?? DEFAULT_MAX_RESTART_ATTEMPTS;
+  const initialDelay =
+    config.restart?.initial_delay_ms ?? DEFAULT_INITIAL_RESTART_DELAY_MS;
+  const maxDelay = config.restart?.max_delay_ms ?? DEFAULT_MAX_RESTART_DELAY_MS;
+  return Array.from({ length: attempts }, (_, attempt) =>
+    Math.min(initialDelay * 2 ** attempt, maxDelay)
+  );
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        key =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Reference-counted MCP servers shared between sessions.
+ *
+ * Sessions whose server configs and roots match share one process (or one
+ * remote connection). A server is stopped when the last session using it
+ * releases it. Servers configured with `isolated` get an instance per
+ * session.
+ *
+ * A server that exits, or whose remote connection drops, is restarted under
+ * its restart policy and every session using it is told of the new
+ * connection.
+ */
+export class ServerPool {
+  private servers: Map<string, PooledServer> = new Map();
+  // Capabilities each server config last reported, keyed by serverKey, so
+  // lazy servers can offer their tools before they start
+  private discovered: Map<string, ServerCapabilities> = new Map();
+
+  constructor(
+    private readonly launcher: ServerLauncher,
+    private readonly discovery: ServerDiscovery
+  ) {}
+
+  /**
+   * Use a server from a session, launching or connecting to it unless a
+   * matching one is already running
+   */
+  async acquire(
+    sessionId: string,
+    serverName: string,
+    config: ServerConfig,
+    member: ServerPoolMember
+  ): Promise<ServerConnection> {
+    const key = poolKey(sessionId, config, member.onListRoots?.() ?? []);
+
+    let server = this.servers.get(key);
+    if (server?.restartFailed) {
+      console.log(
+        `[POOL] Starting server ${server.instanceName} again for session ${sessionId}`
+      );
+      // The failed attempts left no process or client behind
+      const restarting = server;
+      const members = Array.from(restarting.members.values());
+      restarting.restartFailed = false;
+      restarting.connection = this.connect(restarting);
+      restarting.connection.then(
+        connection =>
+          this.forEachMember(
+            restarting,
+            existing => existing.onReconnect?.(connection),
+            members
+          ),
+        () => {
+          restarting.restartFailed = true;
+        }
+      );
+    } else if (server) {
+      console.log(
+        `[POOL] Sharing server ${server.instanceName} with session ${sessionId}`
+      );
+    } else {
+      const created = {
+        key,
+        serverName,
+        instanceName: this.instanceName(serverName, key),
+        config,
+        members: new Map(),
+        health: { state: ServerState.NotStarted, failedPings: 0 },
+        closed: false,
+      } as PooledServer;
+      created.connection = this.connect(created);
+      // A failed start isn't kept, so the next session tries again
+      created.connection.catch(() => {
+        if (this.servers.get(key) === created) {
+          this.servers.delete(key);
+        }
+      });
+      this.servers.set(key, created);
+      server = created;
+    }
+
+    server.members.set(sessionId, member);
+    try {
+      return await server.connection;
+    } catch (error) {
+      server.members.delete(sessionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Give a session the server matching the roots it now offers. A server
+   * only this session uses is kept; a shared one is left to the other
+   * sessions, and the session moves to the server for its new roots,
+   * started if none is running.
+   * @returns The new connection if the session moved, undefined if it
+   * keeps its server
+   */
+  async updateRoots(
+    sessionId: string,
+    serverName: string
+  ): Promise<ServerConnection | undefined> {
+    const server = this.find(sessionId, serverName);
+    const member = server?.members.get(sessionId);
+    if (!server || !member) {
+      return undefined;
+    }
+    const key = poolKey(sessionId, server.config, member.onListRoots?.() ?? []);
+    if (key === server.key) {
+      return undefined;
+    }
+
+    if (server.members.size === 1 && !this.servers.has(key)) {
+      console.log(
+        `[POOL] Server ${server.instanceName} now serves session ${sessionId}'s new roots`
+      );
+      this.servers.delete(server.key);
+      server.key = key;
+      this.servers.set(key, server);
+      return undefined;
+    }
+
+    console.log(
+      `[POOL] Moving session ${sessionId} off ${server.instanceName} for its new roots`
+    );
+    await this.release(sessionId, serverName);
+    return this.acquire(sessionId, serverName, server.config, member);
+  }
+
+  /**
+   * Stop using a server from a session. The server is stopped once no
+   * session uses it.
+   */
+  async release(sessionId: string, serverName: string): Promise<void> {
+    const server = this.find(sessionId, serverName);
+    if (!server) {
+      return;
+    }
+    server.members.delete(sessionId);
+    if (server.members.size > 0) {
+      console.log(
+        `[POOL] Server ${server.instanceName} still used by ${server.members.size} sessions`
+      );
+      return;
+    }
+    this.servers.delete(server.key);
+    await this.stop(server);
+  }
+
+  /**
+   * Restart the server a session uses. A shared server restarts for every
+   * session using it, and each is told of the new connection.
+   */
+  async restart(
+    sessionId: string,
+    serverName: string
+  ): Promise<ServerConnection> {
+    const server = this.find(sessionId, serverName);
+    if (!server) {
+      throw new Error(
+        `Server ${serverName} is not running for session ${sessionId}`
+      );
+    }
+    this.forEachMember(server, member => member.onDisconnect?.());
+    return this.reconnect(server);
+  }
+
+  /**
+   * Capabilities a server with this config reported when it last started,
+   * in any session
+   */
+  getDiscoveredCapabilities(
+    config: ServerConfig
+  ): ServerCapabilities | undefined {
+    return this.discovered.get(serverKey(config));
+  }
+
+  /**
+   * State of the server a session uses, or undefined if it uses none by
+   * that name
+   */
+  getHealth(sessionId: string, serverName: string): ServerHealth | undefined {
+    const server = this.find(sessionId, serverName);
+    return server && { ...server.health };
+  }
+
+  /**
+   * Number of sessions using each running server, keyed by instance name
+   */
+  getUsage(): Map<string, number> {
+    return new Map(
+      Array.from(this.servers.values()).map(server => [
+        server.instanceName,
+        server.members.size,
+      ])
+    );
+  }
+
+  /**
+   * Stop every server regardless of which sessions use them
+   */
+  async releaseAll(): Promise<void> {
+    const servers = Array.from(this.servers.values());
+    this.servers.clear();
+    for (const server of servers) {
+      server.closed = true;
+      this.deactivate(server);
+      await this.closeClient(server);
+    }
+    await this.launcher.stopAll();
+  }
+
+  /**
+   * Name the launcher tracks a new server under. A server moved to new
+   * roots keeps its name, so a later server for its old key gets a suffix.
+   */
+  private instanceName(serverName: string, key: string): string {
+    const taken = new Set(
+      Array.from(this.servers.values()).map(server => server.instanceName)
+    );
+    let name = `${serverName}@${key}`;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${serverName}@${key}-${suffix}`;
+    }
+    return name;
+  }
+
+  private find(
+    sessionId: string,
+    serverName: string
+  ): PooledServer | undefined {
+    return Array.from(this.servers.values()).find(
+      server =>
+        server.serverName === serverName && server.members.has(sessionId)
+    );
+  }
+
+  /**
+   * Open a connection to the server and start pinging it
+   */
+  private async connect(server: PooledServer): Promise<ServerConnection> {
+    server.health = { state: ServerState.Starting, failedPings: 0 };
+    try {
+      const connection = await this.open(server);
+      this.discovered.set(serverKey(server.config), connection.capabilities);
+      server.current = connection;
+      server.health = { state: ServerState.Active, failedPings: 0 };
+      this.schedulePing(server, connection);
+      return connection;
+    } catch (error) {
+      server.health = {
+        ...server.health,
+        state: ServerState.Error,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      throw error;
+    }
+  }
+
+  private async open(server: PooledServer): Promise<ServerConnection> {
+    const { serverName, instanceName, config } = server;
+    const options = this.dispatchOptions(server);
+
+    if (isRemoteServer(config)) {
+      const connection = await this.discovery.discoverRemoteCapabilities(
+        serverName,
+        config,
+        options
+      );
+      connection.client.onclose = () => {
+        void this.recover(
+          server,
+          new ServerError(
+            `Connection to server ${serverName} closed`,
+            serverName
+          )
+        );
+      };
+      return connection;
+    }
+
+    await this.launcher.launchServer(instanceName, config);
+    console.log(`[POOL] Server ${instanceName} launched successfully`);
+    try {
+      const serverProcess = this.launcher.getServerProcess(instanceName);
+      if (!serverProcess) {
+        throw new Error(`Server process not found for ${serverName}`);
+      }
+      // Servers ready once they answer initialize have the launch timeout
+      // to answer discovery's
+      const connection = await this.discovery.discoverCapabilities(
+        serverName,
+        serverProcess,
+        config.ready?.type === 'initialize'
+          ? {
+              ...options,
+              connectTimeoutMs:
+                config.launch_timeout_ms ?? DEFAULT_LAUNCH_TIMEOUT_MS,
+            }
+          : options
+      );
+      // The transport closes when the process exits; by then the process
+      // has its exit code
+      connection.client.onclose = () => {
+        void this.recover(
+          server,
+          new ServerExitError(
+            serverName,
+            serverProcess.exitCode,
+            serverProcess.signalCode
+          )
+        );
+      };
+      return connection;
+    } catch (error) {
+      this.launcher.cleanup(instanceName);
+      throw error;
+    }
+  }
+
+  /**
+   * Close the server's current connection, stopping its process, and
+   * connect again. Callers tell members of the disconnect first.
+   */
+  private async reconnect(server: PooledServer): Promise<ServerConnection> {
+    this.deactivate(server);
+    server.restartFailed = false;
+    const previous = server.connection;
+    server.connection = (async () => {
+      await previous.then(
+        () => this.closeClient(server, previous),
+        () => undefined
+      );
+      if (!isRemoteServer(server.config)) {
+        this.stopProcess(server);
+      }
+      return this.connect(server);
+    })();
+
+    const connection = await server.connection;
+    this.forEachMember(server, member => member.onReconnect?.(connection));
+    return connection;
+  }
+
+  /**
+   * Restart a server that went down, unless a restart is already under
+   * way: an exit and failed pings can both report the same outage
+   */
+  private recover(server: PooledServer, reason: ServerError): Promise<void> {
+    if (!server.recovery) {
+      server.recovery = this.restartWithBackoff(server, reason).finally(() => {
+        server.recovery = undefined;
+      });
+    }
+    return server.recovery;
+  }
+
+  /**
+   * Restart a server that exited, or reconnect to one whose connection
+   * dropped, backing off between attempts. Stops once no session uses the
+   * server. A server that can't be restarted is started again by the next
+   * session to acquire it.
+   */
+  private async restartWithBackoff(
+    server: PooledServer,
+    reason: ServerError
+  ): Promise<void> {
+    console.warn(`[POOL] ${reason.message}, restarting ${server.instanceName}`);
+    this.deactivate(server, reason);
+    this.forEachMember(server, member => member.onDisconnect?.(reason));
+
+    const delays = restartDelays(server.config);
+    for (const [index, delay] of delays.entries()) {
+      this.forEachMember(server, member =>
+        member.onRestarting?.(index + 1, delay)
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (server.closed) {
+        return;
+      }
+      try {
+        await this.reconnect(server);
+        return;
+      } catch (error) {
+        console.error(
+          `[POOL] Failed to restart server ${server.instanceName}:`,
+          error
+        );
+      }
+    }
+
+    console.error(
+      `[POOL] Gave up restarting server ${server.instanceName} after ${delays.length} attempts`
+    );
+    const failure = new ServerError(
+      `Server ${server.serverName} could not be restarted after ${delays.length} attempts`,
+      server.serverName
+    );
+    server.health = {
+      ...server.health,
+      state: ServerState.Error,
+      error: failure.message,
+    };
+    server.restartFailed = true;
+    this.forEachMember(server, member => member.onRestartFailed?.(failure));
+  }
+
+  /**
+   * Send the next ping to an active server after the ping interval
+   */
+  private schedulePing(
+    server: PooledServer,
+    connection: ServerConnection
+  ): void {
+    const interval =
+      server.config.ping?.interval_ms ?? DEFAULT_PING_INTERVAL_MS;
+    server.pingTimer = setTimeout(() => {
+      void this.ping(server, connection);
+    }, interval);
+    // Pings alone shouldn't keep the host process running
+    server.pingTimer.unref?.();
+  }
+
+  /**
+   * Ping the server, recording the round trip. A server that misses the
+   * failure threshold in a row is restarted like one that exited.
+   */
+  private async ping(
+    server: PooledServer,
+    connection: ServerConnection
+  ): Promise<void> {
+    const timeout = server.config.ping?.timeout_ms ?? DEFAULT_PING_TIMEOUT_MS;
+    const threshold =
+      server.config.ping?.failure_threshold ?? DEFAULT_PING_FAILURE_THRESHOLD;
+    const sentAt = new Date();
+
+    try {
+      await connection.client.ping({ timeout });
+      if (server.current !== connection) {
+        return;
+      }
+      server.health = {
+        state: ServerState.Active,
+        latencyMs: Date.now() - sentAt.getTime(),
+        lastPingAt: sentAt,
+        failedPings: 0,
+      };
+    } catch (error) {
+      // The connection was replaced or closed while the ping was out
+      if (server.current !== connection) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const failedPings = server.health.failedPings + 1;
+      server.health = { ...server.health, failedPings, error: message };
+      console.warn(
+        `[POOL] Ping to ${server.instanceName} failed (${failedPings}/${threshold}): ${message}`
+      );
+      if (failedPings >= threshold) {
+        void this.recover(
+          server,
+          new ServerHealthError(
+            server.serverName,
+            `${failedPings} pings in a row failed`
+          )
+        );
+        return;
+      }
+    }
+    this.schedulePing(server, connection);
+  }
+
+  /**
+   * Stop using the server's current connection and pinging it, recording
+   * why it went down
+   */
+  private deactivate(server: PooledServer, reason?: ServerError): void {
+    server.current = undefined;
+    clearTimeout(server.pingTimer);
+    server.pingTimer = undefined;
+    if (reason) {
+      server.health = {
+        ...server.health,
+        state: ServerState.Error,
+        error: reason.message,
+      };
+    }
+  }
+
+  private async stop(server: PooledServer): Promise<void> {
+    console.log(`[POOL] Stopping server ${server.instanceName}`);
+    server.closed = true;
+    this.deactivate(server);
+    await this.closeClient(server);
+    if (!isRemoteServer(server.config)) {
+      this.launcher.cleanup(server.instanceName);
+    }
+  }
+
+  private async closeClient(
+    server: PooledServer,
+    connection: Promise<ServerConnection> = server.connection
+  ): Promise<void> {
+    try {
+      const { client } = await connection;
+      // Closing on purpose, so don't treat it as a dropped connection
+      client.onclose = undefined;
+      await client.close();
+    } catch (error) {
+      console.error(
+        `[POOL] Error closing client for ${server.instanceName}:`,
+        error
+      );
+    }
+  }
+
+  private stopProcess(server: PooledServer): void {
+    const serverProcess = this.launcher.getServerProcess(server.instanceName);
+    if (serverProcess) {
+      try {
+        console.log(`[POOL] Killing server process: ${server.instanceName}`);
+        serverProcess.kill('SIGKILL');
+      } catch (error) {
+        console.error(`[POOL] Error killing process: ${error}`);
+      }
+    }
+    this.launcher.cleanup(server.instanceName);
+  }
+
+  private forEachMember(
+    server: PooledServer,
+    callback: (member: ServerPoolMember) => void,
+    members: Iterable<ServerPoolMember> = server.members.values()
+  ): void {
+    for (const member of members) {
+      try {
+        callback(member);
+      } catch (error) {
+        console.error(
+          `[POOL] Error notifying a session using ${server.instanceName}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Sessions that what a server sends belongs to: those with a tool call in
+   * flight to it, or else every session using it
+   */
+  private callingMembers(server: PooledServer): ServerPoolMember[] {
+    const members = Array.from(server.members.values());
+    const calling = members.filter(member => member.hasCallInFlight?.());
+    return calling.length > 0 ? calling : members;
+  }
+
+  /**
+   * Handlers for the server's requests and notifications. Sampling requests
+   * and log messages go to the session the server is answering a call for;
+   * a sampling request that can't be tied to one session is refused.
+   * roots/list only lists roots every session using the server offers.
+   */
+  private dispatchOptions(server: PooledServer): DiscoveryOptions {
+    const members = () => Array.from(server.members.values());
+    return {
+      onSamplingRequest: (params, signal) => {
+        const [member, ...others] = this.callingMembers(server).filter(
+          candidate => candidate.onSamplingRequest
+        );
+        if (!member?.onSamplingRequest) {
+          throw new Error('No session can answer sampling requests');
+        }
+        if (others.length > 0) {
+          throw new Error(
+            `Sampling request from ${server.serverName} can't be tied to one session`
+          );
+        }
+        return member.onSamplingRequest(params, signal);
+      },
+      onListChanged: list =>
+        this.forEachMember(server, member => member.onListChanged?.(list)),
+      onResourceUpdated: uri =>
+        this.forEachMember(server, member => member.onResourceUpdated?.(uri)),
+      onListRoots: () => {
+        const [first = [], ...rest] = members().map(
+          member => member.onListRoots?.() ?? []
+        );
+        return first.filter(root =>
+          rest.every(roots => roots.some(other => other.uri === root.uri))
+        );
+      },
+      onLogMessage: params =>
+        this.forEachMember(
+          server,
+          member => member.onLogMessage?.(params),
+          this.callingMembers(server)
+        ),
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { ChildProcess } from 'child_process';
+import {
+  AddressInfo,
+  createServer as createTcpServer,
+  Server as TcpServer,
+} from 'net';
+import { createServer as createHttpServer, Server as HttpServer } from 'http';
+import { describeReadiness, waitForReadiness } from './readiness';
+
+describe('waitForReadiness', () => {
+  let child: ChildProcess;
+  let stdout: PassThrough;
+  let stderr: PassThrough;
+
+  beforeEach(() => {
+    stdout = new PassThrough();
+    stderr = new PassThrough();
+    child = Object.assign(new EventEmitter(), {
+      stdin: new PassThrough(),
+      stdout,
+      stderr,
+      exitCode: null,
+      signalCode: null,
+    }) as unknown as ChildProcess;
+  });
+
+  it('should wait for a pattern in stderr, even split across chunks', async () => {
+    let ready = false;
+    const waiting = waitForReadiness(
+      child,
+      { type: 'log', pattern: 'listening on port \\d+' },
+      new AbortController().signal
+    ).then(() => (ready = true));
+
+    stderr.write('Starting up...\nlistening on ');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(ready).toBe(false);
+
+    stderr.write('port 8080\n');
+    await waiting;
+    expect(ready).toBe(true);
+  });
+
+  it('should leave stdout buffered after matching a pattern on it', async () => {
+    const waiting = waitForReadiness(
+      child,
+      { type: 'log', pattern: '^ready$', stream: 'stdout' },
+      new AbortController().signal
+    );
+
+    stdout.write('ready');
+    await waiting;
+    stdout.write('{"jsonrpc":"2.0","id":1,"result":{}}\n');
+
+    expect(stdout.isPaused()).toBe(true);
+    expect(stdout.read().toString()).toBe(
+      '{"jsonrpc":"2.0","id":1,"result":{}}\n'
+    );
+  });
+
+  it('should be ready after a fixed delay', async () => {
+    const started = Date.now();
+
+    await waitForReadiness(
+      child,
+      { type: 'delay', ms: 50 },
+      new AbortController().signal
+    );
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should leave the initialize handshake to discovery', async () => {
+    await waitForReadiness(
+      child,
+      { type: 'initialize' },
+      new AbortController().signal
+    );
+
+    expect((child.stdin as PassThrough).read()).toBeNull();
+  });
+
+  it('should reject once aborted', async () => {
+    const readinessCheck = new AbortController();
+    const waiting = waitForReadiness(
+      child,
+      { type: 'log', pattern: 'never printed' },
+      readinessCheck.signal
+    );
+
+    readinessCheck.abort();
+
+    await expect(waiting).rejects.toThrow('Readiness check stopped');
+    expect(stderr.listenerCount('data')).toBe(0);
+  });
+
+  describe('network probes', () => {
+    let tcpServer: TcpServer | undefined;
+    let httpServer: HttpServer | undefined;
+
+    afterEach(async () => {
+      await Promise.all(
+        [tcpServer, httpServer].map(
+          server =>
+            server?.listening && new Promise(resolve => server.close(resolve))
+        )
+      );
+      tcpServer = httpServer = undefined;
+    });
+
+    it('should wait until a TCP port accepts connections', async () => {
+      // Find a free port, then start listening on it after a few probes
+      const probe = createTcpServer().listen(0);
+      await new Promise(resolve => probe.once('listening', resolve));
+      const { port } = probe.address() as AddressInfo;
+      await new Promise(resolve => probe.close(resolve));
+
+      const waiting = waitForReadiness(
+        child,
+        { type: 'tcp', host: '127.0.0.1', port },
+        new AbortController().signal
+      );
+      setTimeout(() => {
+        tcpServer = createTcpServer(socket => socket.destroy()).listen(
+          port,
+          '127.0.0.1'
+        );
+      }, 300);
+
+      await expect(waiting).resolves.toBeUndefined();
+    });
+
+    it('should wait until an HTTP endpoint returns a 2xx status', async () => {
+      let healthy = false;
+      let requests = 0;
+      httpServer = createHttpServer((_req, res) => {
+        requests++;
+        res.statusCode = healthy ? 200 : 503;
+        res.end();
+      }).listen(0, '127.0.0.1');
+      await new Promise(resolve => httpServer!.once('listening', resolve));
+      const { port } = httpServer.address() as AddressInfo;
+
+      const waiting = waitForReadiness(
+        child,
+        { type: 'http', url: `http://127.0.0.1:${port}/health` },
+        new AbortController().signal
+      );
+      setTimeout(() => (healthy = true), 300);
+
+      await expect(waiting).resolves.toBeUndefined();
+      expect(requests).toBeGreaterThan(1);
+    });
+  });
+
+  it('should describe each strategy for logs', () => {
+    expect(describeReadiness({ type: 'log', pattern: 'ready' })).toBe(
+      'stderr matching /ready/'
+    );
+    expect(describeReadiness({ type: 'tcp', port: 8080 })).toBe(
+      'TCP localhost:8080'
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import { ChildProcess } from 'child_process';
+import { connect } from 'net';
+import { Readable } from 'stream';
+import { ServerReadiness } from '../config/types';
+
+/**
+ * Readiness for servers that don't configure it: the stderr lines printed by
+ * the reference servers once they are listening on stdio
+ */
+export const DEFAULT_READINESS: ServerReadiness = {
+  type: 'log',
+  pattern: 'running on stdio|Allowed directories:',
+};
+
+// How long a launched server has to become ready, unless it configures it
+export const DEFAULT_LAUNCH_TIMEOUT_MS = 15000;
+
+// How often TCP and HTTP probes are retried, and how long each may take
+const PROBE_INTERVAL_MS = 250;
+const PROBE_TIMEOUT_MS = 1000;
+
+// Output kept for matching a log pattern, so lines split across chunks match
+const LOG_WINDOW_SIZE = 4096;
+
+/**
+ * Short description of a readiness strategy for log messages
+ */
+export function describeReadiness(readiness: ServerReadiness): string {
+  switch (readiness.type) {
+    case 'log':
+      return `${readiness.stream ?? 'stderr'} matching /${readiness.pattern}/`;
+    case 'initialize':
+      return 'MCP initialize handshake';
+    case 'delay':
+      return `${readiness.ms}ms delay`;
+    case 'tcp':
+      return `TCP ${readiness.host ?? 'localhost'}:${readiness.port}`;
+    case 'http':
+      return `HTTP ${readiness.url}`;
+  }
+}
+
+/**
+ * Wait until a launched server is ready under its readiness strategy.
+ * Aborting the signal stops waiting and rejects. Servers ready once they
+ * answer initialize are initialized by discovery's client when it connects,
+ * so there is nothing to wait for here.
+ */
+export async function waitForReadiness(
+  serverProcess: ChildProcess,
+  readiness: ServerReadiness,
+  signal: AbortSignal
+): Promise<void> {
+  switch (readiness.type) {
+    case 'log':
+      return waitForOutput(
+        readiness.stream === 'stdout'
+          ? serverProcess.stdout
+          : serverProcess.stderr,
+        new RegExp(readiness.pattern),
+        signal
+      );
+    case 'initialize':
+      return;
+    case 'delay':
+      await sleep(readiness.ms, signal);
+      throwIfAborted(signal);
+      return;
+    case 'tcp':
+      return poll(
+        () => probeTcp(readiness.host ?? 'localhost', readiness.port),
+        signal
+      );
+    case 'http':
+      return poll(() => probeHttp(readiness.url), signal);
+  }
+}
+
+function waitForOutput(
+  stream: Readable | null,
+  pattern: RegExp,
+  signal: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!stream) {
+      reject(new Error('Server output is not piped'));
+      return;
+    }
+
+    let output = '';
+    const stop = () => {
+      stream.off('data', onData);
+      signal.removeEventListener('abort', onAbort);
+      // Unless something else reads the stream, leave unread output
+      // buffered for whoever reads it next
+      if (stream.listenerCount('data') === 0) {
+        stream.pause();
+      }
+    };
+    const onData = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-LOG_WINDOW_SIZE);
+      if (pattern.test(output)) {
+        stop();
+        resolve();
+      }
+    };
+    const onAbort = () => {
+      stop();
+      reject(new Error('Readiness check stopped'));
+    };
+
+    stream.on('data', onData);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function poll(
+  probe: () => Promise<boolean>,
+  signal: AbortSignal
+): Promise<void> {
+  while (!signal.aborted) {
+    if (await probe()) {
+      return;
+    }
+    await sleep(PROBE_INTERVAL_MS, signal);
+  }
+  throwIfAborted(signal);
+}
+
+function probeTcp(host: string, port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = connect({ host, port });
+    const finish = (connected: boolean) => {
+      socket.destroy();
+      resolve(connected);
+    };
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => finish(false));
+    socket.once('connect', () => finish(true));
+    socket.once('error', () => finish(false));
+  });
+}
+
+async function probeHttp(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error('Readiness check stopped');
+  }
+}
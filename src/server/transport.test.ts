@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { ChildProcess } from 'child_process';
+import { ChildProcessTransport } from './transport';
+
+describe('ChildProcessTransport', () => {
+  let child: ChildProcess;
+  let stdin: PassThrough;
+  let stdout: PassThrough;
+
+  beforeEach(() => {
+    stdin = new PassThrough();
+    stdout = new PassThrough();
+    child = Object.assign(new EventEmitter(), {
+      stdin,
+      stdout,
+      exitCode: null,
+      signalCode: null,
+      kill: vi.fn(),
+    }) as unknown as ChildProcess;
+  });
+
+  it("should write messages to the process's stdin", async () => {
+    const transport = new ChildProcessTransport(child);
+    await transport.start();
+
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    expect(stdin.read().toString()).toBe(
+      '{"jsonrpc":"2.0","id":1,"method":"ping"}\n'
+    );
+  });
+
+  it("should read messages from the process's stdout", async () => {
+    const transport = new ChildProcessTransport(child);
+    const onmessage = vi.fn();
+    transport.onmessage = onmessage;
+    await transport.start();
+
+    stdout.write('{"jsonrpc":"2.0","id":1,');
+    stdout.write('"result":{}}\n{"jsonrpc":"2.0","method":"notifications/');
+    stdout.write('initialized"}\n');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onmessage.mock.calls.map(([message]) => message)).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+    ]);
+  });
+
+  it('should report lines that are not messages and keep reading', async () => {
+    const transport = new ChildProcessTransport(child);
+    const onmessage = vi.fn();
+    const onerror = vi.fn();
+    transport.onmessage = onmessage;
+    transport.onerror = onerror;
+    await transport.start();
+
+    stdout.write('Starting up...\n{"jsonrpc":"2.0","id":2,"result":{}}\n');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onerror).toHaveBeenCalledTimes(1);
+    expect(onmessage).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      id: 2,
+      result: {},
+    });
+  });
+
+  it('should close when the process exits', async () => {
+    const transport = new ChildProcessTransport(child);
+    const onclose = vi.fn();
+    transport.onclose = onclose;
+    await transport.start();
+
+    child.emit('exit', 1, null);
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    await expect(
+      transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    ).rejects.toThrow('Server process is not connected');
+  });
+
+  it('should stop reading on close and leave the process to the launcher', async () => {
+    const transport = new ChildProcessTransport(child);
+    const onmessage = vi.fn();
+    const onclose = vi.fn();
+    transport.onmessage = onmessage;
+    transport.onclose = onclose;
+    await transport.start();
+
+    await transport.close();
+    await transport.close();
+    stdout.write('{"jsonrpc":"2.0","id":1,"result":{}}\n');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(onmessage).not.toHaveBeenCalled();
+    expect(child.kill).not.toHaveBeenCalled();
+    expect(child.listenerCount('exit')).toBe(0);
+  });
+
+  it('should refuse to start on a process that has exited', async () => {
+    Object.assign(child, { exitCode: 0 });
+
+    await expect(new ChildProcessTransport(child).start()).rejects.toThrow(
+      'Server process has already exited'
+    );
+  });
+});
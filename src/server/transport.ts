@@ -0,0 +1,106 @@
+import { ChildProcess } from 'child_process';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ReadBuffer,
+  serializeMessage,
+} from '@modelcontextprotocol/sdk/shared/stdio.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * MCP transport over the stdio of a process ServerLauncher has already
+ * spawned, so the process that was launched and health-checked is the one
+ * the client talks to.
+ *
+ * The launcher owns the process: closing the transport stops reading from
+ * it, and stopping the process is left to the launcher. When the process
+ * exits, the transport closes.
+ */
+export class ChildProcessTransport implements Transport {
+  private readonly readBuffer = new ReadBuffer();
+  private started = false;
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private readonly process: ChildProcess) {}
+
+  async start(): Promise<void> {
+    if (this.started) {
+      throw new Error('ChildProcessTransport already started');
+    }
+    const { stdin, stdout } = this.process;
+    if (!stdin || !stdout) {
+      throw new Error('Server process was not spawned with stdio pipes');
+    }
+    if (this.process.exitCode !== null || this.process.signalCode !== null) {
+      throw new Error('Server process has already exited');
+    }
+
+    this.started = true;
+    stdout.on('data', this.handleData);
+    stdout.on('error', this.handleError);
+    stdin.on('error', this.handleError);
+    this.process.on('exit', this.handleExit);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const { stdin } = this.process;
+    if (this.closed || !stdin?.writable) {
+      throw new Error('Server process is not connected');
+    }
+
+    await new Promise<void>(resolve => {
+      if (stdin.write(serializeMessage(message))) {
+        resolve();
+      } else {
+        stdin.once('drain', resolve);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    this.detach();
+  }
+
+  private handleData = (chunk: Buffer): void => {
+    this.readBuffer.append(chunk);
+    for (;;) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        // The bad line has been consumed; keep reading the rest
+        this.onerror?.(error as Error);
+      }
+    }
+  };
+
+  private handleError = (error: Error): void => {
+    this.onerror?.(error);
+  };
+
+  private handleExit = (): void => {
+    this.detach();
+  };
+
+  private detach(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    const { stdin, stdout } = this.process;
+    stdout?.off('data', this.handleData);
+    stdout?.off('error', this.handleError);
+    stdin?.off('error', this.handleError);
+    this.process.off('exit', this.handleExit);
+    this.readBuffer.clear();
+
+    this.onclose?.();
+  }
+}
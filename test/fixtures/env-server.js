@@ -0,0 +1,47 @@
+/**
+ * Stdio MCP server that reports its own process ID and the STUB_VALUE
+ * environment variable, so tests can check which process the client is
+ * talking to and that the configured env reached it. READY_MESSAGE sets
+ * what it prints to stderr once started.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  { name: 'env-server', version: '1.0.0' },
+  { capabilities: { tools: {} } }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, () => ({
+  tools: [
+    {
+      name: 'whoami',
+      description: 'Report the server process ID and STUB_VALUE',
+      inputSchema: { type: 'object', properties: {} },
+    },
+  ],
+}));
+
+server.setRequestHandler(CallToolRequestSchema, () => ({
+  content: [
+    {
+      type: 'text',
+      text: JSON.stringify({
+        pid: process.pid,
+        stubValue: process.env.STUB_VALUE ?? null,
+      }),
+    },
+  ],
+}));
+
+await server.connect(new StdioServerTransport());
+// READY_MESSAGE replaces the startup line; empty prints nothing
+const readyMessage = process.env.READY_MESSAGE ?? 'Env server running on stdio';
+if (readyMessage) {
+  console.error(readyMessage);
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'path';
+import { ServerLauncher } from '../../src/server/launcher';
+import { ServerDiscovery } from '../../src/server/discovery';
+
+/**
+ * The client must talk to the process the launcher spawned, not a second
+ * copy, so the configured env and the launcher's lifecycle apply to it.
+ */
+describe('Launched Server Transport', () => {
+  const launcher = new ServerLauncher();
+
+  afterEach(async () => {
+    await launcher.stopAll();
+  });
+
+  it('should talk to the launched process with its configured env', async () => {
+    const serverProcess = await launcher.launchServer('env', {
+      command: process.execPath,
+      args: [path.join(process.cwd(), 'test/fixtures/env-server.js')],
+      env: { STUB_VALUE: 'from-config' },
+    });
+
+    const { client, capabilities } =
+      await new ServerDiscovery().discoverCapabilities('env', serverProcess);
+
+    try {
+      expect(capabilities.tools.map(tool => tool.name)).toEqual(['whoami']);
+
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+      const [content] = result.content as { type: string; text: string }[];
+      expect(JSON.parse(content.text)).toEqual({
+        pid: serverProcess.pid,
+        stubValue: 'from-config',
+      });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should close the client when the launched process exits', async () => {
+    const serverProcess = await launcher.launchServer('env', {
+      command: process.execPath,
+      args: [path.join(process.cwd(), 'test/fixtures/env-server.js')],
+      env: {},
+    });
+    const { client } = await new ServerDiscovery().discoverCapabilities(
+      'env',
+      serverProcess
+    );
+    const closed = new Promise<void>(resolve => {
+      client.onclose = resolve;
+    });
+
+    serverProcess.kill();
+    await closed;
+
+    await expect(
+      client.callTool({ name: 'whoami', arguments: {} })
+    ).rejects.toThrow();
+  });
+});
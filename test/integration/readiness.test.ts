@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import path from 'path';
+import { ServerLauncher } from '../../src/server/launcher';
+import { ServerDiscovery } from '../../src/server/discovery';
+import { ServerConfig } from '../../src/config/types';
+
+/**
+ * Servers that don't print the reference servers' startup lines are
+ * launched using their configured readiness strategy.
+ */
+describe('Server Readiness', () => {
+  const launcher = new ServerLauncher();
+
+  const envServer = (env: Record<string, string>): ServerConfig => ({
+    command: process.execPath,
+    args: [path.join(process.cwd(), 'test/fixtures/env-server.js')],
+    env,
+  });
+
+  afterEach(async () => {
+    await launcher.stopAll();
+  });
+
+  it('should launch a silent server once it answers initialize', async () => {
+    const serverProcess = await launcher.launchServer('env', {
+      ...envServer({ READY_MESSAGE: '' }),
+      ready: { type: 'initialize' },
+      launch_timeout_ms: 5000,
+    });
+
+    // Discovery's client is the one that initializes it
+    const { client, capabilities } =
+      await new ServerDiscovery().discoverCapabilities('env', serverProcess);
+    try {
+      expect(capabilities.tools.map(tool => tool.name)).toEqual(['whoami']);
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+      const [content] = result.content as { type: string; text: string }[];
+      expect(JSON.parse(content.text).pid).toBe(serverProcess.pid);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should launch a server once its custom startup line is printed', async () => {
+    const serverProcess = await launcher.launchServer('env', {
+      ...envServer({ READY_MESSAGE: 'Listening for MCP requests' }),
+      ready: { type: 'log', pattern: 'Listening for MCP' },
+    });
+
+    expect(launcher.getServerProcess('env')).toBe(serverProcess);
+  });
+
+  it('should time out a silent server waiting for the default startup line', async () => {
+    await expect(
+      launcher.launchServer('env', {
+        ...envServer({ READY_MESSAGE: '' }),
+        launch_timeout_ms: 500,
+      })
+    ).rejects.toThrow('Server startup timeout reached');
+    expect(launcher.getServerProcess('env')).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ServerDiscovery } from '../../src/server/discovery';
+
+/**
+ * A stub MCP server with one tool, echoing back the request's
+ * Authorization header so tests can check configured headers are sent
+ */
+function createStubServer(): Server {
+  const server = new Server(
+    { name: 'stub-remote-server', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: [
+      {
+        name: 'echo',
+        description: 'Echo a message',
+        inputSchema: {
+          type: 'object',
+          properties: { message: { type: 'string' } },
+        },
+      },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => ({
+    content: [
+      {
+        type: 'text',
+        text: `${request.params.arguments?.message} (${
+          extra.requestInfo?.headers.authorization ?? 'anonymous'
+        })`,
+      },
+    ],
+  }));
+  return server;
+}
+
+/**
+ * These tests connect to MCP servers deployed as HTTP services, served
+ * in-process over Streamable HTTP and SSE.
+ */
+describe('Remote MCP Servers', () => {
+  let httpServer: HttpServer;
+  let baseUrl: string;
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+
+    // Stateless Streamable HTTP: a fresh server and transport per request
+    app.post('/mcp', async (req, res) => {
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      const server = createStubServer();
+      res.on('close', () => {
+        transport.close();
+        server.close();
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    });
+
+    app.get('/sse', async (req, res) => {
+      const transport = new SSEServerTransport('/messages', res);
+      sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => sseTransports.delete(transport.sessionId));
+      await createStubServer().connect(transport);
+    });
+
+    app.post('/messages', async (req, res) => {
+      const transport = sseTransports.get(req.query.sessionId as string);
+      if (!transport) {
+        res.status(404).end();
+        return;
+      }
+      await transport.handlePostMessage(req, res, req.body);
+    });
+
+    httpServer = app.listen(0);
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should discover and call tools over Streamable HTTP', async () => {
+    const { client, capabilities } =
+      await new ServerDiscovery().discoverRemoteCapabilities('stub', {
+        transport: 'http',
+        url: `${baseUrl}/mcp`,
+        headers: { Authorization: 'Bearer test-token' },
+      });
+
+    try {
+      expect(capabilities.tools.map(tool => tool.name)).toEqual(['echo']);
+
+      const result = await client.callTool({
+        name: 'echo',
+        arguments: { message: 'hello' },
+      });
+      expect(result.content).toEqual([
+        { type: 'text', text: 'hello (Bearer test-token)' },
+      ]);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('should discover and call tools over SSE', async () => {
+    const { client, capabilities } =
+      await new ServerDiscovery().discoverRemoteCapabilities('stub', {
+        transport: 'sse',
+        url: `${baseUrl}/sse`,
+      });
+
+    try {
+      expect(capabilities.tools.map(tool => tool.name)).toEqual(['echo']);
+
+      const result = await client.callTool({
+        name: 'echo',
+        arguments: { message: 'hi' },
+      });
+      expect(result.content).toEqual([
+        { type: 'text', text: 'hi (anonymous)' },
+      ]);
+    } finally {
+      await client.close();
+    }
+  });
+});